@@ -1,18 +1,196 @@
-import type { JitterFn, JitterMode } from '../../utils/misc.js';
+import { logger } from '../../logger.js';
+import { backoffRetry, type JitterFn, type JitterMode } from '../../utils/misc.js';
 import type { StorageReadWriter } from '../storage.js';
 import { ATTR_PEER_SERVICE, trace } from '../telemetry.js';
+import { secureId } from '../utils.js';
+import { Lock, LockError, type LockOptions } from './lock.js';
+import { CacheMetrics, type CacheOperation, type CacheStats } from './metrics.js';
 import { SpanKind } from '@opentelemetry/api';
 
+/** Prefix of keys used to hold locks, both in {@see BaseCache.acquire()} and while generating values in {@see BaseCache.remember()}. */
+const LOCK_KEY_PREFIX = '__lock__:';
+/** Prefix of keys used to index entries by tag. */
+const TAG_KEY_PREFIX = '__tag__:';
+
+export type RememberLockOptions = {
+	/** Lock time-to-live, expressed as number of seconds. Defaults to 30 seconds. */
+	ttl?: number;
+	/** Maximum time to wait for the lock holder to store the value, expressed as number of seconds. Defaults to lock TTL. */
+	wait?: number;
+};
+
+export type RememberOptions = {
+	/**
+	 * Time after which a cached value is considered stale, expressed as number of seconds from when it was stored.
+	 * Stale values are returned immediately, while the callback refreshes the entry in background.
+	 */
+	softTtl?: number;
+	/**
+	 * Refresh entries in background once this fraction of the TTL has elapsed (e.g. `0.8`). Ignored if `softTtl` is set.
+	 */
+	refreshAhead?: number;
+	/**
+	 * Coalesce concurrent misses across processes too, by holding a lock in the cache backend while the value is being generated.
+	 * Concurrent misses within the same process are always coalesced. If the backend fails to acquire the lock,
+	 * e.g. because it is unreachable, the value is generated without holding it.
+	 */
+	lock?: boolean | RememberLockOptions;
+	/** Tags to attach to the generated entry, to later invalidate it with {@see BaseCache.clearTags()}. */
+	tags?: readonly string[];
+	/**
+	 * Remember that the callback returned `undefined` for this long, expressed as number of seconds. During this time,
+	 * `undefined` is returned without invoking the callback again. By default, `undefined` results are not cached.
+	 */
+	negativeTtl?: number;
+};
+
+/**
+ * Cache entry, with its metadata. Tombstones record a missing value, see {@see RememberOptions.negativeTtl}:
+ * they carry no value, so `tombstone` must be checked before reading it.
+ */
+export type CacheEntry<V> = {
+	/** Timestamp (in milliseconds) when the entry was stored, if known. */
+	storedAt?: number;
+	/** Timestamp (in milliseconds) after which the entry is considered stale, if any. */
+	staleAt?: number;
+	/** Tags attached to the entry. */
+	tags?: readonly string[];
+} & (
+	| {
+			/** Cached value. */
+			value: V;
+			tombstone?: false;
+	  }
+	| {
+			value?: never;
+			/** Whether the entry records a missing value. */
+			tombstone: true;
+	  }
+);
+
+/**
+ * Cached value, with its storage and expiration timestamps.
+ */
+export type CacheValueWithMeta<V> = {
+	/** Cached value. */
+	value: V;
+	/** Timestamp (in milliseconds) when the value was stored, if known. */
+	storedAt?: number;
+	/** Timestamp (in milliseconds) when the value expires, or `undefined` if it never expires. */
+	expiresAt?: number;
+};
+
+/** Error thrown when a cache backend does not support an operation. */
+export class UnsupportedOperationError extends Error {
+	constructor(
+		public readonly operation: string,
+		backend: string,
+	) {
+		super(`Operation ${operation} is not supported by ${backend}`);
+		this.name = 'UnsupportedOperationError';
+	}
+}
+
 /**
  * Base class for caching.
+ *
+ * Backends must implement reading and writing entries, deleting, listing and clearing keys. Other operations
+ * throw {@see UnsupportedOperationError} unless overridden.
  */
 export abstract class BaseCache<V> implements StorageReadWriter<V> {
+	/** Values being generated by {@see BaseCache.remember()} in this process, by key. */
+	readonly #pending = new Map<string, Promise<V | undefined>>();
+	/** Stale values being refreshed in background by {@see BaseCache.remember()} in this process, by key. */
+	readonly #refreshing = new Map<string, Promise<V | undefined>>();
+
+	/** Metrics collector of this cache instance. Backends should override it to tag metrics with their type and key prefix. */
+	protected readonly metrics: CacheMetrics = new CacheMetrics(this.constructor.name, undefined);
+
+	/**
+	 * Decorator to collect metrics of a backend method: duration, failures, and number of keys read, written or removed.
+	 *
+	 * Methods are expected to take a key, or a list of keys (or entries), as their first argument. Read methods must
+	 * return either the entry, or a map of entries that have been found.
+	 *
+	 * @param operation Operation performed by the method.
+	 */
+	protected static metered<This extends BaseCache<unknown>, Args extends [string | Iterable<unknown>, ...unknown[]], R>(
+		operation: CacheOperation,
+	) {
+		return (
+			target: (this: This, ...args: Args) => Promise<R>,
+			_ctx: ClassMethodDecoratorContext<This, (this: This, ...args: Args) => Promise<R>>,
+		) =>
+			async function (this: This, ...args: Args): Promise<R> {
+				// Iterables might be consumed only once: make sure we're able to count items.
+				const items = typeof args[0] !== 'string' ? [...args[0]] : undefined;
+				if (items !== undefined) {
+					args[0] = items;
+				}
+				const count = items?.length ?? 1;
+
+				const start = performance.now();
+				try {
+					const result = await target.call(this, ...args);
+					if (operation === 'get') {
+						const hits = result instanceof Map ? result.size : result !== undefined ? 1 : 0;
+						this.metrics.recordReads(hits, count - hits);
+					} else if (operation === 'set') {
+						this.metrics.recordSets(count);
+					} else {
+						this.metrics.recordDeletes(count);
+					}
+
+					return result;
+				} catch (err) {
+					this.metrics.recordError(operation);
+
+					throw err;
+				} finally {
+					this.metrics.recordDuration(operation, performance.now() - start);
+				}
+			};
+	}
+
+	/**
+	 * Take a snapshot of metrics collected by this cache instance in the current process.
+	 */
+	public stats(): CacheStats {
+		return this.metrics.stats();
+	}
+
+	/**
+	 * Read an entry from the cache along with its metadata, if present.
+	 *
+	 * @param key Key.
+	 */
+	public abstract getEntry(key: string): Promise<CacheEntry<V> | undefined>;
+
+	/**
+	 * Set an entry in the cache along with its metadata.
+	 *
+	 * @param key Key.
+	 * @param entry Entry to be stored.
+	 * @param ttl Time-to-live, expressed as number of seconds from current time.
+	 * @param jitter Jitter to apply to TTL. By default, no jittering is applied.
+	 */
+	public abstract setEntry(
+		key: string,
+		entry: CacheEntry<V>,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<void>;
+
 	/**
 	 * Read an item from the cache, if present.
 	 *
 	 * @param key Key.
 	 */
-	public abstract get(key: string): Promise<V | undefined>;
+	public async get(key: string): Promise<V | undefined> {
+		const entry = await this.getEntry(key);
+
+		return entry?.tombstone ? undefined : entry?.value;
+	}
 
 	/**
 	 * Set an item in the cache.
@@ -21,13 +199,17 @@ export abstract class BaseCache<V> implements StorageReadWriter<V> {
 	 * @param value Value to be stored.
 	 * @param ttl Time-to-live, expressed as number of seconds from current time.
 	 * @param jitter Jitter to apply to TTL. By default, no jittering is applied.
+	 * @param tags Tags to attach to the entry, to later invalidate it with {@see BaseCache.clearTags()}.
 	 */
-	public abstract set(
+	public set(
 		key: string,
 		value: V,
 		ttl?: number | undefined,
 		jitter?: JitterMode | JitterFn | undefined,
-	): Promise<void>;
+		tags?: readonly string[] | undefined,
+	): Promise<void> {
+		return this.setEntry(key, { value, storedAt: Date.now(), tags }, ttl, jitter);
+	}
 
 	/**
 	 * Remove an item from cache.
@@ -37,45 +219,360 @@ export abstract class BaseCache<V> implements StorageReadWriter<V> {
 	public abstract delete(key: string): Promise<void>;
 
 	/**
-	 * Iterate through keys in this cache.
+	 * Get the remaining time-to-live of an item.
+	 *
+	 * @param key Key.
+	 * @returns Remaining time-to-live, expressed as number of seconds, `Infinity` if the item never expires,
+	 * or `undefined` if the item is not in cache.
+	 * @throws {UnsupportedOperationError} If the backend cannot read expiration of items.
+	 */
+	public async ttl(_key: string): Promise<number | undefined> {
+		throw new UnsupportedOperationError('ttl', this.constructor.name);
+	}
+
+	/**
+	 * Update the expiration of an item without rewriting its value.
+	 *
+	 * @param key Key.
+	 * @param ttl Time-to-live, expressed as number of seconds from current time. If neither this nor a default TTL is set, the item never expires.
+	 * @param jitter Jitter to apply to TTL. By default, no jittering is applied.
+	 * @returns Whether the item was in cache.
+	 * @throws {UnsupportedOperationError} If the backend cannot update expiration of items.
+	 */
+	public async touch(
+		_key: string,
+		_ttl?: number | undefined,
+		_jitter?: JitterMode | JitterFn | undefined,
+	): Promise<boolean> {
+		throw new UnsupportedOperationError('touch', this.constructor.name);
+	}
+
+	/**
+	 * Atomically increment a counter. Counters that do not exist yet start from zero, and expire after the TTL
+	 * set on their first write; subsequent increments do not change their expiration.
+	 *
+	 * @param key Key.
+	 * @param delta Amount to add to the counter. Defaults to 1.
+	 * @param ttl Time-to-live of a new counter, expressed as number of seconds from current time.
+	 * @param jitter Jitter to apply to TTL. By default, no jittering is applied.
+	 * @returns Value of the counter after the increment.
+	 * @throws {UnsupportedOperationError} If the backend cannot update counters atomically.
+	 */
+	public async increment(
+		_key: string,
+		_delta?: number,
+		_ttl?: number | undefined,
+		_jitter?: JitterMode | JitterFn | undefined,
+	): Promise<number> {
+		throw new UnsupportedOperationError('increment', this.constructor.name);
+	}
+
+	/**
+	 * Atomically decrement a counter, see {@see BaseCache.increment()}.
+	 *
+	 * @param key Key.
+	 * @param delta Amount to subtract from the counter. Defaults to 1.
+	 * @param ttl Time-to-live of a new counter, expressed as number of seconds from current time.
+	 * @param jitter Jitter to apply to TTL. By default, no jittering is applied.
+	 * @returns Value of the counter after the decrement.
+	 * @throws {UnsupportedOperationError} If the backend cannot update counters atomically.
+	 */
+	public decrement(
+		key: string,
+		delta = 1,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<number> {
+		return this.increment(key, -delta, ttl, jitter);
+	}
+
+	/**
+	 * Update the expiration of an item without rewriting its value. Alias of {@see BaseCache.touch()}.
+	 *
+	 * @param key Key.
+	 * @param ttl Time-to-live, expressed as number of seconds from current time. If neither this nor a default TTL is set, the item never expires.
+	 * @param jitter Jitter to apply to TTL. By default, no jittering is applied.
+	 * @returns Whether the item was in cache.
+	 */
+	public expire(key: string, ttl?: number | undefined, jitter?: JitterMode | JitterFn | undefined): Promise<boolean> {
+		return this.touch(key, ttl, jitter);
+	}
+
+	/**
+	 * Read an item from the cache along with its storage and expiration timestamps, if present.
+	 *
+	 * @param key Key.
+	 */
+	public async getWithMeta(key: string): Promise<CacheValueWithMeta<V> | undefined> {
+		const [entry, ttl] = await Promise.all([this.getEntry(key), this.ttl(key)]);
+		if (entry === undefined || entry.tombstone || ttl === undefined) {
+			return undefined;
+		}
+
+		return {
+			value: entry.value,
+			storedAt: entry.storedAt,
+			expiresAt: Number.isFinite(ttl) ? Date.now() + Math.round(ttl * 1000) : undefined,
+		};
+	}
+
+	/**
+	 * Read multiple entries from the cache along with their metadata. Missing keys are omitted from the result.
+	 *
+	 * By default, entries are read sequentially: backends should override this method with a native implementation.
+	 *
+	 * @param keys Keys.
+	 */
+	public async getEntries(keys: readonly string[]): Promise<Map<string, CacheEntry<V>>> {
+		const entries = new Map<string, CacheEntry<V>>();
+		for (const key of keys) {
+			const entry = await this.getEntry(key);
+			if (entry !== undefined) {
+				entries.set(key, entry);
+			}
+		}
+
+		return entries;
+	}
+
+	/**
+	 * Set multiple entries in the cache along with their metadata.
+	 *
+	 * By default, entries are written sequentially: backends should override this method with a native implementation.
+	 *
+	 * @param entries Entries to be stored, by key.
+	 * @param ttl Time-to-live, expressed as number of seconds from current time.
+	 * @param jitter Jitter to apply to TTL. By default, no jittering is applied.
+	 */
+	public async setEntries(
+		entries: Iterable<readonly [string, CacheEntry<V>]>,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<void> {
+		for (const [key, entry] of entries) {
+			await this.setEntry(key, entry, ttl, jitter);
+		}
+	}
+
+	/**
+	 * Read multiple items from the cache. Missing keys are omitted from the result.
+	 *
+	 * @param keys Keys.
+	 */
+	public async getMany(keys: readonly string[]): Promise<Map<string, V>> {
+		const entries = await this.getEntries(keys);
+
+		return new Map([...entries].flatMap(([key, entry]) => (entry.tombstone ? [] : [[key, entry.value] as const])));
+	}
+
+	/**
+	 * Set multiple items in the cache.
+	 *
+	 * @param items Values to be stored, by key.
+	 * @param ttl Time-to-live, expressed as number of seconds from current time.
+	 * @param jitter Jitter to apply to TTL. By default, no jittering is applied.
+	 * @param tags Tags to attach to the entries, to later invalidate them with {@see BaseCache.clearTags()}.
+	 */
+	public setMany(
+		items: Iterable<readonly [string, V]>,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+		tags?: readonly string[] | undefined,
+	): Promise<void> {
+		const storedAt = Date.now();
+
+		return this.setEntries(
+			[...items].map(([key, value]) => [key, { value, storedAt, tags }] as const),
+			ttl,
+			jitter,
+		);
+	}
+
+	/**
+	 * Remove multiple items from cache.
+	 *
+	 * By default, items are removed sequentially: backends should override this method with a native implementation.
+	 *
+	 * @param keys Keys.
+	 */
+	public async deleteMany(keys: readonly string[]): Promise<void> {
+		for (const key of keys) {
+			await this.delete(key);
+		}
+	}
+
+	/**
+	 * Iterate through keys in this cache. Keys holding locks and tag indexes are not listed.
 	 *
 	 * @param prefix List all keys under this prefix.
 	 */
 	public abstract keys(prefix?: string): AsyncIterator<string, void, never>;
 
 	/**
-	 * Flush cache removing all items.
+	 * Flush cache removing all items. Locks and tag indexes are preserved.
 	 *
 	 * @param prefix Clear all keys under this prefix.
 	 */
 	public abstract clear(prefix?: string): Promise<void>;
 
 	/**
-	 * Flush cache removing all items matching a pattern.
+	 * Flush cache removing all items matching a pattern. Locks and tag indexes are preserved.
 	 *
 	 * @param pattern Pattern to clear. May include the wildcard `*`.
 	 */
 	public abstract clearPattern(pattern: string): Promise<void>;
 
+	/**
+	 * Check whether a key is used internally by this cache to hold a lock or a tag index.
+	 *
+	 * @param key Key, relative to this cache.
+	 */
+	protected isInternalKey(key: string): boolean {
+		return key.startsWith(LOCK_KEY_PREFIX) || key.startsWith(TAG_KEY_PREFIX);
+	}
+
+	/**
+	 * Flush cache removing all items carrying any of the tags.
+	 *
+	 * Entries that have been overwritten without a tag they previously carried may be removed as well.
+	 *
+	 * @param tags Tags to clear.
+	 * @throws {UnsupportedOperationError} If the backend cannot index entries by tag.
+	 */
+	public async clearTags(..._tags: string[]): Promise<void> {
+		throw new UnsupportedOperationError('clearTags', this.constructor.name);
+	}
+
+	/**
+	 * Key of the index of entries carrying a tag.
+	 *
+	 * @param tag Tag.
+	 */
+	protected tagKey(tag: string): string {
+		return TAG_KEY_PREFIX + tag;
+	}
+
+	/**
+	 * Atomically acquire a lock, unless it is already held by someone else.
+	 *
+	 * @param key Lock key.
+	 * @param token Token identifying the lock owner.
+	 * @param ttl Lock time-to-live, expressed as number of seconds from current time.
+	 * @returns Whether the lock has been acquired.
+	 * @throws {UnsupportedOperationError} If the backend cannot hold locks.
+	 */
+	public async acquireLock(_key: string, _token: string, _ttl: number): Promise<boolean> {
+		throw new UnsupportedOperationError('acquireLock', this.constructor.name);
+	}
+
+	/**
+	 * Release a lock, if it is still held by the owner identified by the token.
+	 *
+	 * @param key Lock key.
+	 * @param token Token identifying the lock owner.
+	 * @returns Whether the lock has been released.
+	 * @throws {UnsupportedOperationError} If the backend cannot hold locks.
+	 */
+	public async releaseLock(_key: string, _token: string): Promise<boolean> {
+		throw new UnsupportedOperationError('releaseLock', this.constructor.name);
+	}
+
+	/**
+	 * Extend a lock, if it is still held by the owner identified by the token.
+	 *
+	 * @param key Lock key.
+	 * @param token Token identifying the lock owner.
+	 * @param ttl New lock time-to-live, expressed as number of seconds from current time.
+	 * @returns Whether the lock has been extended.
+	 * @throws {UnsupportedOperationError} If the backend cannot hold locks.
+	 */
+	public async extendLock(_key: string, _token: string, _ttl: number): Promise<boolean> {
+		throw new UnsupportedOperationError('extendLock', this.constructor.name);
+	}
+
+	/**
+	 * Acquire a lock on a key. The lock is shared with the one held by {@see BaseCache.remember()} while generating
+	 * the value for the same key.
+	 *
+	 * @param key Key.
+	 * @param ttl Lock time-to-live, expressed as number of seconds from current time.
+	 * @param options Additional options.
+	 * @returns The acquired lock, or `undefined` if it is held by someone else.
+	 */
+	public async acquire(key: string, ttl: number, options?: LockOptions): Promise<Lock | undefined> {
+		const lockKey = LOCK_KEY_PREFIX + key;
+		const token = secureId(16);
+		const deadline = Date.now() + (options?.wait ?? 0) * 1000;
+		const acquired = await backoffRetry(
+			async (): Promise<boolean | undefined> => {
+				if (await this.acquireLock(lockKey, token, ttl)) {
+					return true;
+				}
+
+				return Date.now() >= deadline ? false : undefined;
+			},
+			50,
+			1000,
+		);
+
+		return acquired ? new Lock(this, lockKey, token) : undefined;
+	}
+
+	/**
+	 * Run a function while holding a lock on a key, releasing it afterwards.
+	 *
+	 * @param key Key.
+	 * @param ttl Lock time-to-live, expressed as number of seconds from current time.
+	 * @param fn Function to run while holding the lock.
+	 * @param options Additional options.
+	 * @throws {LockError} If the lock cannot be acquired.
+	 */
+	public async withLock<T>(
+		key: string,
+		ttl: number,
+		fn: (lock: Lock) => T | PromiseLike<T>,
+		options?: LockOptions,
+	): Promise<T> {
+		const lock = await this.acquire(key, ttl, options);
+		if (lock === undefined) {
+			throw new LockError(key);
+		}
+
+		try {
+			return await fn(lock);
+		} finally {
+			await lock.release().catch((err) => {
+				logger.warn({ key, err }, 'Got error while trying to release lock');
+			});
+		}
+	}
+
 	/**
 	 * Read or set an item in the cache.
 	 *
+	 * Concurrent misses for the same key are coalesced, so that the callback is invoked only once
+	 * and all callers await its result. If a soft TTL is set, stale values are returned immediately
+	 * and refreshed in background; if the refresh fails, the stale value keeps being served.
+	 *
 	 * @param key Key.
 	 * @param callback Function that can be invoked to generate the value to then save to cache.
 	 * @param ttl Time-to-live, expressed as number of seconds from current time.
 	 * @param jitter Jitter to apply to TTL. By default, no jittering is applied.
+	 * @param options Additional options.
 	 */
 	remember(
 		key: string,
 		callback: () => PromiseLike<V>,
 		ttl?: number | undefined,
 		jitter?: JitterMode | JitterFn | undefined,
+		options?: RememberOptions,
 	): Promise<V>;
 	remember(
 		key: string,
 		callback: () => PromiseLike<V | undefined>,
 		ttl?: number | undefined,
 		jitter?: JitterMode | JitterFn | undefined,
+		options?: RememberOptions,
 	): Promise<V | undefined>;
 	@trace({ kind: SpanKind.CLIENT, attributes: { [ATTR_PEER_SERVICE]: 'cache' } })
 	public async remember(
@@ -83,17 +580,147 @@ export abstract class BaseCache<V> implements StorageReadWriter<V> {
 		callback: () => PromiseLike<V | undefined>,
 		ttl?: number | undefined,
 		jitter?: JitterMode | JitterFn | undefined,
+		options?: RememberOptions,
 	): Promise<V | undefined> {
-		const cached = await this.get(key);
+		const cached = await this.getEntry(key);
+		if (cached?.tombstone) {
+			return undefined;
+		}
 		if (cached !== undefined) {
-			return cached;
+			if (cached.staleAt !== undefined && Date.now() >= cached.staleAt) {
+				this.#singleFlight(this.#refreshing, key, () =>
+					this.#generate(key, callback, ttl, jitter, options, true),
+				).catch((err) => {
+					logger.warn({ key, err }, 'Got error while trying to refresh stale cache key, serving stale value');
+				});
+			}
+
+			return cached.value;
 		}
 
-		const value = await callback();
-		if (value !== undefined) {
-			await this.set(key, value, ttl, jitter);
+		return this.#singleFlight(this.#pending, key, () => this.#generate(key, callback, ttl, jitter, options, false));
+	}
+
+	/**
+	 * Share a single in-flight generation of a value among all concurrent callers in this process.
+	 *
+	 * @param inFlight Map of in-flight generations, by key.
+	 * @param key Key.
+	 * @param factory Function that generates and stores the value.
+	 */
+	#singleFlight(
+		inFlight: Map<string, Promise<V | undefined>>,
+		key: string,
+		factory: () => Promise<V | undefined>,
+	): Promise<V | undefined> {
+		let pending = inFlight.get(key);
+		if (pending === undefined) {
+			pending = factory().finally(() => inFlight.delete(key));
+			inFlight.set(key, pending);
+		}
+
+		return pending;
+	}
+
+	/**
+	 * Generate a value and store it in cache, holding a lock in the cache backend if requested.
+	 *
+	 * @param key Key.
+	 * @param callback Function that can be invoked to generate the value to then save to cache.
+	 * @param ttl Time-to-live, expressed as number of seconds from current time.
+	 * @param jitter Jitter to apply to TTL.
+	 * @param options Additional options.
+	 * @param refresh Whether a stale value is being refreshed. In this case, refresh is skipped if the lock is already held.
+	 */
+	async #generate(
+		key: string,
+		callback: () => PromiseLike<V | undefined>,
+		ttl: number | undefined,
+		jitter: JitterMode | JitterFn | undefined,
+		options: RememberOptions | undefined,
+		refresh: boolean,
+	): Promise<V | undefined> {
+		const store = async (): Promise<V | undefined> => {
+			const value = await callback();
+			const storedAt = Date.now();
+			if (value !== undefined) {
+				const softTtl =
+					options?.softTtl ??
+					(ttl !== undefined && options?.refreshAhead !== undefined ? ttl * options.refreshAhead : undefined);
+				const staleAt = softTtl !== undefined ? storedAt + softTtl * 1000 : undefined;
+				await this.setEntry(key, { value, storedAt, staleAt, tags: options?.tags }, ttl, jitter);
+			} else if (options?.negativeTtl !== undefined) {
+				const tombstone = { storedAt, tags: options.tags, tombstone: true } as const;
+				await this.setEntry(key, tombstone, options.negativeTtl, jitter);
+			}
+
+			return value;
+		};
+
+		if (!options?.lock) {
+			return store();
+		}
+
+		const { ttl: lockTtl = 30, wait = lockTtl } = options.lock === true ? {} : options.lock;
+		const lockKey = LOCK_KEY_PREFIX + key;
+		const token = secureId(16);
+		const deadline = Date.now() + wait * 1000;
+		let outcome: { acquired: boolean; entry?: CacheEntry<V> } | undefined;
+		try {
+			outcome = refresh
+				? { acquired: await this.acquireLock(lockKey, token, lockTtl) }
+				: await backoffRetry(
+						async (): Promise<{ acquired: boolean; entry?: CacheEntry<V> } | undefined> => {
+							if (await this.acquireLock(lockKey, token, lockTtl)) {
+								return { acquired: true };
+							}
+
+							const entry = await this.getEntry(key);
+							if (entry !== undefined || Date.now() >= deadline) {
+								return { acquired: false, entry };
+							}
+
+							return undefined;
+						},
+						50,
+						1000,
+					);
+		} catch (err) {
+			if (err instanceof UnsupportedOperationError) {
+				throw err;
+			}
+
+			// Backend is failing, e.g. because it is unreachable: waiting for a lock that cannot be held is pointless.
+			logger.warn({ key, err }, 'Could not acquire cache lock, generating value anyway');
+
+			return store();
 		}
+		if (!outcome?.acquired) {
+			if (refresh) {
+				// Someone else is already refreshing the value.
+				return undefined;
+			}
+			if (outcome?.entry !== undefined) {
+				return outcome.entry.tombstone ? undefined : outcome.entry.value;
+			}
 
-		return value;
+			logger.warn({ key }, 'Timed out waiting for cache lock, generating value anyway');
+
+			return store();
+		}
+
+		try {
+			// The value might have been stored by the previous lock holder in the meantime.
+			const cached = refresh ? undefined : await this.getEntry(key);
+			if (cached !== undefined) {
+				return cached.tombstone ? undefined : cached.value;
+			}
+
+			return await store();
+		} finally {
+			await this.releaseLock(lockKey, token).catch((err) => {
+				logger.error({ key, err }, 'Got error while trying to release cache lock');
+			});
+		}
 	}
 }
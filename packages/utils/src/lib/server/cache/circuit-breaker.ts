@@ -0,0 +1,134 @@
+import { EventEmitter } from 'node:events';
+
+export type CircuitBreakerOptions = {
+	/** Number of consecutive failures after which the circuit opens. Defaults to 5. */
+	failureThreshold?: number;
+	/** Time after which an open circuit lets a trial operation through, expressed as number of milliseconds. Defaults to 30 seconds. */
+	resetTimeout?: number;
+	/** Time after which a pending operation is considered failed, expressed as number of milliseconds. By default, operations never time out. */
+	operationTimeout?: number;
+};
+
+/**
+ * State of a circuit breaker:
+ * - `closed`: operations are executed normally;
+ * - `open`: operations are rejected immediately;
+ * - `half-open`: a single trial operation is executed to check whether the service has recovered.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/** Error thrown when an operation is rejected because the circuit is open. */
+export class CircuitOpenError extends Error {
+	constructor() {
+		super('Circuit is open');
+		this.name = 'CircuitOpenError';
+	}
+}
+
+/** Error thrown when an operation takes longer than the configured timeout. */
+export class OperationTimeoutError extends Error {
+	constructor(ms: number) {
+		super(`Operation timed out after ${ms}ms`);
+		this.name = 'OperationTimeoutError';
+	}
+}
+
+/**
+ * Circuit breaker, to stop sending operations to an unhealthy service until it recovers.
+ * Emits an event named after the new state (`open`, `half-open` or `closed`) on each state transition.
+ */
+export class CircuitBreaker extends EventEmitter<Record<CircuitState, []>> {
+	readonly #options: Required<Omit<CircuitBreakerOptions, 'operationTimeout'>> &
+		Pick<CircuitBreakerOptions, 'operationTimeout'>;
+	#state: CircuitState = 'closed';
+	#failures = 0;
+	#openedAt = 0;
+	#trialPending = false;
+
+	constructor({ failureThreshold = 5, resetTimeout = 30_000, operationTimeout }: CircuitBreakerOptions = {}) {
+		super();
+
+		this.#options = Object.freeze({ failureThreshold, resetTimeout, operationTimeout });
+	}
+
+	/** Current state of the circuit. */
+	public get state(): CircuitState {
+		return this.#state;
+	}
+
+	/**
+	 * Execute an operation, unless the circuit is open.
+	 *
+	 * @param operation Operation.
+	 * @throws {CircuitOpenError} If the circuit is open.
+	 * @throws {OperationTimeoutError} If the operation times out.
+	 */
+	public async execute<T>(operation: () => PromiseLike<T>): Promise<T> {
+		if (this.#state === 'open' && Date.now() - this.#openedAt >= this.#options.resetTimeout) {
+			this.#transition('half-open');
+		}
+		if (this.#state === 'open' || (this.#state === 'half-open' && this.#trialPending)) {
+			throw new CircuitOpenError();
+		}
+
+		const trial = this.#state === 'half-open';
+		this.#trialPending = trial;
+		try {
+			const result = await this.#withTimeout(operation);
+			this.#failures = 0;
+			this.#transition('closed');
+
+			return result;
+		} catch (err) {
+			this.#failures++;
+			if (trial || this.#failures >= this.#options.failureThreshold) {
+				this.#openedAt = Date.now();
+				this.#transition('open');
+			}
+
+			throw err;
+		} finally {
+			if (trial) {
+				this.#trialPending = false;
+			}
+		}
+	}
+
+	/**
+	 * Run an operation, rejecting if it does not settle within the configured timeout.
+	 *
+	 * @param operation Operation.
+	 */
+	async #withTimeout<T>(operation: () => PromiseLike<T>): Promise<T> {
+		const { operationTimeout } = this.#options;
+		if (operationTimeout === undefined) {
+			return operation();
+		}
+
+		let timer: NodeJS.Timeout | undefined;
+		try {
+			return await Promise.race([
+				operation(),
+				new Promise<never>((_, reject) => {
+					timer = setTimeout(() => reject(new OperationTimeoutError(operationTimeout)), operationTimeout);
+				}),
+			]);
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+
+	/**
+	 * Move to a new state, notifying listeners if it has changed.
+	 *
+	 * @param state New state.
+	 */
+	#transition(state: CircuitState): void {
+		if (this.#state === state) {
+			return;
+		}
+
+		this.#state = state;
+		this.emit(state);
+	}
+}
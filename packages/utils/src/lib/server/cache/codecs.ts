@@ -0,0 +1,393 @@
+import { decode as decodeMessagePack, encode as encodeMessagePack } from '@msgpack/msgpack';
+import { createCipheriv, createDecipheriv, createHash, hkdfSync, randomBytes } from 'node:crypto';
+import {
+	brotliCompressSync,
+	brotliDecompressSync,
+	constants as zlibConstants,
+	deflateSync,
+	gzipSync,
+	gunzipSync,
+	inflateSync,
+} from 'node:zlib';
+
+/**
+ * Serializer used by caches that store values outside of the process memory.
+ * Values of type `V` are read back as `Out`, e.g. with dates turned into strings by JSON serialization.
+ */
+export interface Codec<V = unknown, Out = V> {
+	/** Human-readable name of the data format. */
+	readonly name: string;
+	/** MIME type of encoded data. */
+	readonly contentType: string;
+	/** Content encoding of encoded data, if any. */
+	readonly contentEncoding?: string;
+	/**
+	 * Encode a value.
+	 *
+	 * @param value Value to be encoded.
+	 * @param context Context encoded data is bound to, such as the key it is stored at.
+	 */
+	encode(value: V, context?: string): string | Uint8Array;
+	/**
+	 * Decode a value. Must throw a {@link CodecError} if data is malformed.
+	 *
+	 * @param data Encoded data.
+	 * @param context Context encoded data is bound to, which must match the one data was encoded with.
+	 */
+	decode(data: Uint8Array, context?: string): Out;
+}
+
+export type Jsonify<T> = T extends { toJSON(): infer U }
+	? U
+	: T extends Promise<unknown>
+		? never
+		: T extends object
+			? { [k in keyof T]: Jsonify<T[k]> }
+			: T;
+
+/**
+ * Type of values read back from a cache: values only survive a round-trip unchanged when using a non-JSON codec.
+ * Codec objects declare the type of values they read back themselves.
+ */
+export type Decoded<V, C> = C extends 'json' ? Jsonify<V> : C extends Codec<never, infer Out> ? Out : V;
+
+/** Error thrown when data cannot be encoded or decoded by a codec. */
+export class CodecError extends Error {
+	constructor(
+		public readonly codec: string,
+		message: string,
+		options?: ErrorOptions,
+	) {
+		super(message, options);
+		this.name = 'CodecError';
+	}
+}
+
+/**
+ * Wrap encoding and decoding functions so that errors are consistently reported as {@link CodecError}.
+ *
+ * @param codec Codec.
+ */
+const defineCodec = <V, Out>(codec: Codec<V, Out>): Codec<V, Out> =>
+	Object.freeze({
+		...codec,
+		encode: (value: V, context?: string) => {
+			try {
+				return codec.encode(value, context);
+			} catch (err) {
+				throw new CodecError(codec.name, `Could not encode ${codec.name} data`, { cause: err });
+			}
+		},
+		decode: (data: Uint8Array, context?: string) => {
+			try {
+				return codec.decode(data, context);
+			} catch (err) {
+				throw new CodecError(codec.name, `Could not decode ${codec.name} data`, { cause: err });
+			}
+		},
+	});
+
+const textDecoder = new TextDecoder('utf-8', { fatal: true });
+
+/** Tagged representation of values that JSON cannot represent natively. */
+type RichJsonTagged = { $type: string; value: unknown };
+
+/**
+ * Replace values that JSON cannot represent natively with a tagged representation.
+ *
+ * @param key Property name.
+ * @param value Property value, after `toJSON()` has been applied.
+ */
+function richJsonReplacer(this: Record<string, unknown>, key: string, value: unknown): unknown {
+	const raw = this[key];
+	if (raw instanceof Date) {
+		const time = raw.getTime();
+
+		return { $type: 'Date', value: Number.isNaN(time) ? null : time } satisfies RichJsonTagged;
+	}
+	if (typeof raw === 'bigint') {
+		return { $type: 'BigInt', value: raw.toString() } satisfies RichJsonTagged;
+	}
+	if (typeof raw === 'number' && !Number.isFinite(raw)) {
+		return { $type: 'Number', value: raw.toString() } satisfies RichJsonTagged;
+	}
+	if (raw instanceof Map) {
+		return { $type: 'Map', value: [...raw.entries()] } satisfies RichJsonTagged;
+	}
+	if (raw instanceof Set) {
+		return { $type: 'Set', value: [...raw.values()] } satisfies RichJsonTagged;
+	}
+	if (raw instanceof Uint8Array) {
+		return { $type: 'Uint8Array', value: Buffer.from(raw).toString('base64') } satisfies RichJsonTagged;
+	}
+	if (raw instanceof RegExp) {
+		return { $type: 'RegExp', value: [raw.source, raw.flags] } satisfies RichJsonTagged;
+	}
+	if (value !== null && typeof value === 'object' && !Array.isArray(value) && Object.hasOwn(value, '$type')) {
+		// Escape objects that would otherwise be mistaken for tagged values.
+		return { $type: 'Object', value: Object.entries(value) } satisfies RichJsonTagged;
+	}
+
+	return value;
+}
+
+/**
+ * Restore values from their tagged representation. Being called bottom-up, nested values are already restored.
+ *
+ * @param _key Property name.
+ * @param value Property value.
+ */
+const richJsonReviver = (_key: string, value: unknown): unknown => {
+	if (value === null || typeof value !== 'object' || typeof (value as RichJsonTagged).$type !== 'string') {
+		return value;
+	}
+
+	const tagged = value as RichJsonTagged;
+	switch (tagged.$type) {
+		case 'Date':
+			return new Date((tagged.value as number | null) ?? Number.NaN);
+		case 'BigInt':
+			return BigInt(tagged.value as string);
+		case 'Number':
+			return Number(tagged.value);
+		case 'Map':
+			return new Map(tagged.value as [unknown, unknown][]);
+		case 'Set':
+			return new Set(tagged.value as unknown[]);
+		case 'Uint8Array':
+			return new Uint8Array(Buffer.from(tagged.value as string, 'base64'));
+		case 'RegExp':
+			return new RegExp(...(tagged.value as [string, string]));
+		case 'Object':
+			return Object.fromEntries(tagged.value as [string, unknown][]);
+		default:
+			return value;
+	}
+};
+
+/** Plain JSON. Values are subject to JSON serialization, e.g. dates are returned as strings. */
+export const jsonCodec: Codec = defineCodec({
+	name: 'JSON',
+	contentType: 'application/json',
+	encode: (value) => JSON.stringify(value),
+	decode: (data) => JSON.parse(textDecoder.decode(data)),
+});
+
+/**
+ * JSON with support for most values supported by the structured clone algorithm:
+ * `Date`, `BigInt`, non-finite numbers, `Map`, `Set`, `Uint8Array` and `RegExp`.
+ */
+export const richJsonCodec: Codec = defineCodec({
+	name: 'rich JSON',
+	contentType: 'application/json',
+	encode: (value) => JSON.stringify(value, richJsonReplacer),
+	decode: (data) => JSON.parse(textDecoder.decode(data), richJsonReviver),
+});
+
+/** MessagePack binary format. */
+export const messagePackCodec: Codec = defineCodec({
+	name: 'MessagePack',
+	contentType: 'application/vnd.msgpack',
+	encode: (value) => encodeMessagePack(value, { useBigInt64: true }),
+	decode: (data) => decodeMessagePack(data, { useBigInt64: true }),
+});
+
+/** Raw UTF-8 strings. */
+export const textCodec: Codec<string> = defineCodec({
+	name: 'text',
+	contentType: 'text/plain; charset=utf-8',
+	encode: (value) => value,
+	decode: (data) => textDecoder.decode(data),
+});
+
+/** Raw binary data. */
+export const binaryCodec: Codec<Uint8Array> = defineCodec({
+	name: 'binary',
+	contentType: 'application/octet-stream',
+	encode: (value) => value,
+	decode: (data) => data,
+});
+
+/** Built-in codecs. */
+export const codecs = Object.freeze({
+	'json': jsonCodec,
+	'rich-json': richJsonCodec,
+	'msgpack': messagePackCodec,
+	'text': textCodec,
+	'binary': binaryCodec,
+});
+
+export type CodecName = keyof typeof codecs;
+
+/**
+ * Resolve a codec by its name.
+ *
+ * @param codec Codec, or name of a built-in codec.
+ */
+export function resolveCodec<V = unknown>(codec: 'json'): Codec<V, Jsonify<V>>;
+export function resolveCodec<V = unknown, Out = V>(codec: CodecName | Codec<V, Out>): Codec<V, Out>;
+export function resolveCodec(codec: CodecName | Codec): Codec {
+	return typeof codec === 'string' ? codecs[codec] : codec;
+}
+
+/** Compression algorithm. */
+export type CompressionAlgorithm = 'gzip' | 'deflate' | 'brotli';
+
+export type CompressionOptions = {
+	/** Compression algorithm. Defaults to `gzip`. */
+	algorithm?: CompressionAlgorithm;
+	/** Minimum size of encoded values to be compressed, expressed as number of bytes. Defaults to 1 KiB. */
+	threshold?: number;
+	/** Compression level, whose range depends on the algorithm. Defaults to the algorithm's default level. */
+	level?: number;
+};
+
+/** Header byte marking how encoded data has been compressed. */
+const COMPRESSION_HEADERS = Object.freeze({ none: 0x00, gzip: 0x01, deflate: 0x02, brotli: 0x03 });
+
+const compressors: Record<CompressionAlgorithm, (data: Uint8Array, level: number | undefined) => Uint8Array> = {
+	gzip: (data, level) => gzipSync(data, { level }),
+	deflate: (data, level) => deflateSync(data, { level }),
+	brotli: (data, level) =>
+		brotliCompressSync(data, level !== undefined ? { params: { [zlibConstants.BROTLI_PARAM_QUALITY]: level } } : {}),
+};
+
+const decompressors: Record<number, (data: Uint8Array) => Uint8Array> = {
+	[COMPRESSION_HEADERS.none]: (data) => data,
+	[COMPRESSION_HEADERS.gzip]: (data) => gunzipSync(data),
+	[COMPRESSION_HEADERS.deflate]: (data) => inflateSync(data),
+	[COMPRESSION_HEADERS.brotli]: (data) => brotliDecompressSync(data),
+};
+
+/**
+ * Wrap a codec so that encoded values above a size threshold are compressed.
+ * Encoded data is prefixed with a header byte marking whether and how it has been compressed,
+ * so that reads are transparent regardless of the size of each value.
+ *
+ * @param codec Codec, or name of a built-in codec.
+ * @param options Compression options.
+ */
+export function compressedCodec<V = unknown>(codec: 'json', options?: CompressionOptions): Codec<V, Jsonify<V>>;
+export function compressedCodec<V = unknown, Out = V>(
+	codec: CodecName | Codec<V, Out>,
+	options?: CompressionOptions,
+): Codec<V, Out>;
+export function compressedCodec(
+	codec: CodecName | Codec,
+	{ algorithm = 'gzip', threshold = 1024, level }: CompressionOptions = {},
+): Codec {
+	const inner = resolveCodec(codec);
+
+	return defineCodec({
+		name: `${algorithm}-compressed ${inner.name}`,
+		contentType: 'application/octet-stream',
+		encode: (value, context) => {
+			const encoded = inner.encode(value, context);
+			const data = typeof encoded === 'string' ? Buffer.from(encoded, 'utf-8') : encoded;
+			const [header, payload] =
+				data.byteLength >= threshold
+					? [COMPRESSION_HEADERS[algorithm], compressors[algorithm](data, level)]
+					: [COMPRESSION_HEADERS.none, data];
+
+			return Buffer.concat([Uint8Array.of(header), payload]);
+		},
+		decode: (data, context) => {
+			const decompress = decompressors[data[0]];
+			if (decompress === undefined) {
+				throw new Error(`Unknown compression header ${data[0]}`);
+			}
+
+			return inner.decode(decompress(data.subarray(1)), context);
+		},
+	});
+}
+
+export type EncryptionOptions = {
+	/**
+	 * Secrets encryption keys are derived from. Values are always encrypted with the first key,
+	 * while the others are only used to decrypt data encrypted before a key rotation.
+	 */
+	secrets: string | readonly string[];
+};
+
+/** Version byte of encrypted data, followed by key ID, IV, authentication tag and ciphertext. */
+const ENCRYPTION_VERSION = 0x01;
+const KEY_ID_LENGTH = 4;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+/** Encryption key derived from a secret. */
+type EncryptionKey = { id: Buffer; key: Buffer };
+
+/**
+ * Derive an AES-256 key from a secret.
+ *
+ * @param secret Secret.
+ */
+const deriveKey = (secret: string): EncryptionKey => {
+	const key = Buffer.from(hkdfSync('sha256', secret, '', '@chialab/sveltekit-utils encryption', 32));
+
+	return { id: createHash('sha256').update(key).digest().subarray(0, KEY_ID_LENGTH), key };
+};
+
+/**
+ * Wrap a codec so that encoded values are encrypted with AES-256-GCM.
+ * Encrypted data carries the ID of the key it was encrypted with, so that keys can be rotated
+ * while data encrypted with previous keys can still be decrypted. Tampered data fails to decode.
+ * The context passed when encoding (i.e. the storage key) is authenticated as additional data,
+ * so that data moved to a different key fails to decode as well.
+ *
+ * @param codec Codec, or name of a built-in codec.
+ * @param options Encryption options.
+ */
+export function encryptedCodec<V = unknown>(codec: 'json', options: EncryptionOptions): Codec<V, Jsonify<V>>;
+export function encryptedCodec<V = unknown, Out = V>(
+	codec: CodecName | Codec<V, Out>,
+	options: EncryptionOptions,
+): Codec<V, Out>;
+export function encryptedCodec(codec: CodecName | Codec, { secrets }: EncryptionOptions): Codec {
+	const inner = resolveCodec(codec);
+	const keys = (typeof secrets === 'string' ? [secrets] : secrets).map(deriveKey);
+	if (keys.length === 0) {
+		throw new TypeError('At least one secret is required');
+	}
+
+	return defineCodec({
+		name: `encrypted ${inner.name}`,
+		contentType: 'application/octet-stream',
+		encode: (value, context) => {
+			const [{ id, key }] = keys;
+			const iv = randomBytes(IV_LENGTH);
+			const cipher = createCipheriv('aes-256-gcm', key, iv, { authTagLength: AUTH_TAG_LENGTH });
+			cipher.setAAD(Buffer.from(context ?? '', 'utf-8'));
+			const encoded = inner.encode(value, context);
+			const ciphertext = Buffer.concat([
+				cipher.update(typeof encoded === 'string' ? Buffer.from(encoded, 'utf-8') : encoded),
+				cipher.final(),
+			]);
+
+			return Buffer.concat([Uint8Array.of(ENCRYPTION_VERSION), id, iv, cipher.getAuthTag(), ciphertext]);
+		},
+		decode: (data, context) => {
+			const buf = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+			if (buf[0] !== ENCRYPTION_VERSION) {
+				throw new Error('Unknown encryption version');
+			}
+
+			let offset = 1;
+			const id = buf.subarray(offset, (offset += KEY_ID_LENGTH));
+			const iv = buf.subarray(offset, (offset += IV_LENGTH));
+			const authTag = buf.subarray(offset, (offset += AUTH_TAG_LENGTH));
+			const key = keys.find((candidate) => candidate.id.equals(id))?.key;
+			if (key === undefined) {
+				throw new Error('Unknown encryption key');
+			}
+
+			const decipher = createDecipheriv('aes-256-gcm', key, iv, { authTagLength: AUTH_TAG_LENGTH });
+			decipher.setAuthTag(authTag);
+			decipher.setAAD(Buffer.from(context ?? '', 'utf-8'));
+
+			return inner.decode(Buffer.concat([decipher.update(buf.subarray(offset)), decipher.final()]), context);
+		},
+	});
+}
@@ -0,0 +1,494 @@
+import { mkdir, readdir, readFile, rename, rm, unlink, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { logger } from '../../logger.js';
+import { createJitter, JitterMode, type JitterFn } from '../../utils/misc.js';
+import { secureId } from '../utils.js';
+import { BaseCache, UnsupportedOperationError, type CacheEntry } from './base.js';
+import { CodecError, resolveCodec, type Codec, type CodecName, type Decoded } from './codecs.js';
+import { CacheMetrics } from './metrics.js';
+
+type FileSystemCacheOptions<C extends CodecName | Codec = 'json'> = {
+	/** Root directory where entries are stored. */
+	directory: string;
+	keyPrefix?: string;
+	defaultTTL?: number;
+	defaultJitter?: JitterMode | JitterFn;
+	/** Codec used to serialize values. Defaults to `'json'`. */
+	codec?: C;
+};
+
+/** Metadata stored in the first line of entry files. */
+type FileMetadata = Omit<CacheEntry<unknown>, 'value'> & {
+	/** Timestamp (in milliseconds) after which the entry is expired, if any. */
+	expiresAt?: number;
+};
+
+/** Extension of entry files. Encoded path segments never contain dots, so entry files never clash with directories. */
+const ENTRY_EXTENSION = '.entry';
+
+/** Separator between metadata and serialized value. Metadata is serialized as JSON, which never contains raw newlines. */
+const ENTRY_SEPARATOR = 0x0a;
+
+function joinParts(...prefixes: string[]): string {
+	return prefixes
+		.filter((p) => p && p.length > 0)
+		.map((p) => p.replace(/\/+$/, '').replace(/^\/+/, ''))
+		.join('/');
+}
+
+/**
+ * Encode a path segment so that it is a safe file name: dots and characters reserved by any file system are escaped.
+ *
+ * @param segment Path segment.
+ */
+const encodeSegment = (segment: string): string =>
+	encodeURIComponent(segment).replace(/[.*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+/**
+ * Check if an error is caused by a missing file.
+ *
+ * @param err Error.
+ */
+const isNotFound = (err: unknown): boolean => err instanceof Error && 'code' in err && err.code === 'ENOENT';
+
+/**
+ * Cache storing every entry in a file. Keys are split into directories on slashes, the same way as {@see S3Cache}.
+ * Writes are atomic, but locks are best-effort: they are meant for single-node deployments.
+ */
+export class FileSystemCache<V, C extends CodecName | Codec = 'json'> extends BaseCache<V | Decoded<V, C>> {
+	readonly #options: FileSystemCacheOptions<C>;
+	readonly #codec: Codec;
+	protected readonly metrics: CacheMetrics;
+
+	public static init<V, C extends CodecName | Codec = 'json'>(
+		options: FileSystemCacheOptions<C>,
+	): FileSystemCache<V, C> {
+		return new this(options);
+	}
+
+	private constructor(options: FileSystemCacheOptions<C>) {
+		super();
+
+		this.#options = Object.freeze({ ...options });
+		this.#codec = resolveCodec(options.codec ?? 'json');
+		this.metrics = new CacheMetrics('filesystem', options.keyPrefix);
+	}
+
+	public child<V2 extends V>(
+		keyPrefix: string,
+		options?: Partial<Omit<FileSystemCacheOptions<C>, 'directory' | 'keyPrefix'>>,
+	): FileSystemCache<V2, C> {
+		return new FileSystemCache<V2, C>({
+			...this.#options,
+			...options,
+			keyPrefix: joinParts(this.#options.keyPrefix ?? '', keyPrefix),
+		});
+	}
+
+	/**
+	 * Build path of the directory holding entries of this cache.
+	 */
+	#buildDirectory(): string {
+		return join(
+			this.#options.directory,
+			...joinParts(this.#options.keyPrefix ?? '')
+				.split('/')
+				.map(encodeSegment),
+		);
+	}
+
+	/**
+	 * Build full key of an entry, including the key prefix.
+	 *
+	 * @param key Key.
+	 */
+	#buildKey(key: string): string {
+		return joinParts(this.#options.keyPrefix ?? '', key);
+	}
+
+	/**
+	 * Build path of the file holding an entry.
+	 *
+	 * @param key Key.
+	 */
+	#buildPath(key: string): string {
+		const segments = joinParts(key).split('/').map(encodeSegment);
+		segments.push(segments.pop() + ENTRY_EXTENSION);
+
+		return join(this.#buildDirectory(), ...segments);
+	}
+
+	/**
+	 * Build path of the file indexing a key under a tag.
+	 *
+	 * @param tag Tag.
+	 * @param key Key.
+	 */
+	#buildTagPath(tag: string, key: string): string {
+		return join(this.#buildDirectory(), encodeSegment(this.tagKey(tag)), encodeSegment(key) + ENTRY_EXTENSION);
+	}
+
+	@BaseCache.metered('get')
+	public async getEntry(key: string): Promise<CacheEntry<Decoded<V, C>> | undefined> {
+		let raw: Buffer;
+		try {
+			raw = await readFile(this.#buildPath(key));
+		} catch (err) {
+			if (!isNotFound(err)) {
+				this.metrics.recordError('get');
+				logger.error({ key, err }, 'Got error while trying to read cache key');
+			}
+
+			return undefined;
+		}
+
+		this.metrics.recordSize('get', raw.length);
+		try {
+			const { meta, payload } = this.#unframe(raw);
+			if (meta.expiresAt !== undefined && Date.now() > meta.expiresAt) {
+				this.delete(key).catch((err) => {
+					logger.error({ key, err }, 'Got error while trying to delete expired cache key');
+				});
+
+				return undefined;
+			}
+
+			const { storedAt, staleAt, tags, tombstone } = meta;
+			if (tombstone) {
+				return { storedAt, staleAt, tags, tombstone };
+			}
+
+			return { value: this.#codec.decode(payload, this.#buildKey(key)) as Decoded<V, C>, storedAt, staleAt, tags };
+		} catch (err) {
+			if (!(err instanceof CodecError)) {
+				throw err;
+			}
+
+			this.metrics.recordError('get');
+			logger.warn(`Malformed ${this.#codec.name} data`);
+			logger.debug({ key, err }, `Could not parse ${this.#codec.name} data stored in file system cache`);
+
+			return undefined;
+		}
+	}
+
+	/**
+	 * Split metadata from the serialized value stored in a file.
+	 *
+	 * @param raw File contents.
+	 */
+	#unframe(raw: Buffer): { meta: FileMetadata; payload: Buffer } {
+		const idx = raw.indexOf(ENTRY_SEPARATOR);
+		if (idx === -1) {
+			throw new CodecError('entry', 'Missing separator between entry metadata and value');
+		}
+
+		try {
+			return { meta: JSON.parse(raw.subarray(0, idx).toString('utf-8')), payload: raw.subarray(idx + 1) };
+		} catch (err) {
+			throw new CodecError('entry', 'Could not decode entry metadata', { cause: err });
+		}
+	}
+
+	@BaseCache.metered('set')
+	public async setEntry(
+		key: string,
+		entry: CacheEntry<V | Decoded<V, C>>,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<void> {
+		const payload = entry.tombstone ? '' : this.#codec.encode(entry.value, this.#buildKey(key));
+
+		try {
+			const expiresAt = this.#expiresAt(ttl, jitter);
+			const { storedAt, staleAt, tags, tombstone } = entry;
+			const meta: FileMetadata = { expiresAt, storedAt, staleAt, tags, tombstone };
+			const data = Buffer.concat([
+				Buffer.from(JSON.stringify(meta)),
+				Buffer.from([ENTRY_SEPARATOR]),
+				typeof payload === 'string' ? Buffer.from(payload) : payload,
+			]);
+			this.metrics.recordSize('set', data.length);
+			await this.#writeAtomic(this.#buildPath(key), data);
+
+			// Index files are named after the tag and the key, so that no read-modify-write is needed.
+			await Promise.all(
+				(entry.tags ?? []).map((tag) =>
+					this.#writeAtomic(this.#buildTagPath(tag, key), `${JSON.stringify({ expiresAt })}\n`),
+				),
+			);
+		} catch (err) {
+			this.metrics.recordError('set');
+			logger.error({ key, err }, 'Got error while trying to set cache key');
+		}
+	}
+
+	/**
+	 * Write a file atomically, by writing a temporary file in the same directory and then renaming it.
+	 *
+	 * @param path File path.
+	 * @param data File contents.
+	 */
+	async #writeAtomic(path: string, data: string | Uint8Array): Promise<void> {
+		await mkdir(dirname(path), { recursive: true });
+
+		const tmpPath = `${path}.${secureId(8)}.tmp`;
+		try {
+			await writeFile(tmpPath, data);
+			await rename(tmpPath, path);
+		} catch (err) {
+			await rm(tmpPath, { force: true });
+
+			throw err;
+		}
+	}
+
+	public async ttl(key: string): Promise<number | undefined> {
+		const meta = await this.#readMeta(key);
+		if (meta === undefined) {
+			return undefined;
+		}
+
+		return meta.expiresAt !== undefined ? Math.max(meta.expiresAt - Date.now(), 0) / 1000 : Infinity;
+	}
+
+	public async touch(
+		key: string,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<boolean> {
+		const path = this.#buildPath(key);
+		let meta: FileMetadata;
+		let payload: Buffer;
+		try {
+			({ meta, payload } = this.#unframe(await readFile(path)));
+		} catch (err) {
+			if (!isNotFound(err) && !(err instanceof CodecError)) {
+				throw err;
+			}
+
+			return false;
+		}
+
+		if (meta.expiresAt !== undefined && Date.now() > meta.expiresAt) {
+			return false;
+		}
+
+		const expiresAt = this.#expiresAt(ttl, jitter);
+		await this.#writeAtomic(
+			path,
+			Buffer.concat([Buffer.from(JSON.stringify({ ...meta, expiresAt })), Buffer.from([ENTRY_SEPARATOR]), payload]),
+		);
+		await Promise.all(
+			(meta.tags ?? []).map((tag) =>
+				this.#writeAtomic(this.#buildTagPath(tag, key), `${JSON.stringify({ expiresAt })}\n`),
+			),
+		);
+
+		return true;
+	}
+
+	/**
+	 * Compute expiration timestamp of an entry, applying defaults and jitter.
+	 *
+	 * @param ttl Time-to-live, expressed as number of seconds from current time.
+	 * @param jitter Jitter to apply to TTL.
+	 */
+	#expiresAt(ttl: number | undefined, jitter: JitterMode | JitterFn | undefined): number | undefined {
+		ttl ??= this.#options.defaultTTL;
+		if (ttl === undefined) {
+			return undefined;
+		}
+
+		return Date.now() + Math.round(createJitter(jitter ?? this.#options.defaultJitter ?? JitterMode.None)(ttl * 1000));
+	}
+
+	/**
+	 * Read metadata of an entry that has not expired yet.
+	 *
+	 * @param key Key.
+	 */
+	async #readMeta(key: string): Promise<FileMetadata | undefined> {
+		try {
+			const { meta } = this.#unframe(await readFile(this.#buildPath(key)));
+
+			return meta.expiresAt === undefined || Date.now() <= meta.expiresAt ? meta : undefined;
+		} catch (err) {
+			if (!isNotFound(err) && !(err instanceof CodecError)) {
+				throw err;
+			}
+
+			return undefined;
+		}
+	}
+
+	public async increment(_key: string): Promise<number> {
+		// Files cannot be updated atomically.
+		throw new UnsupportedOperationError('increment', FileSystemCache.name);
+	}
+
+	@BaseCache.metered('delete')
+	public async delete(key: string): Promise<void> {
+		await rm(this.#buildPath(key), { force: true });
+	}
+
+	public async *keys(prefix?: string): AsyncGenerator<string, void, undefined> {
+		for await (const key of this.#walk(this.#buildDirectory(), '')) {
+			if ((prefix === undefined || key.startsWith(prefix)) && !this.isInternalKey(key)) {
+				yield key;
+			}
+		}
+	}
+
+	/**
+	 * Recursively list keys of entries stored in a directory.
+	 *
+	 * @param directory Directory path.
+	 * @param keyPrefix Key corresponding to the directory.
+	 */
+	async *#walk(directory: string, keyPrefix: string): AsyncGenerator<string, void, undefined> {
+		let dirents;
+		try {
+			dirents = await readdir(directory, { withFileTypes: true });
+		} catch (err) {
+			if (isNotFound(err)) {
+				return;
+			}
+
+			throw err;
+		}
+
+		for (const dirent of dirents.sort((a, b) => a.name.localeCompare(b.name))) {
+			if (dirent.isDirectory()) {
+				yield* this.#walk(join(directory, dirent.name), joinParts(keyPrefix, decodeURIComponent(dirent.name)));
+			} else if (dirent.isFile() && dirent.name.endsWith(ENTRY_EXTENSION)) {
+				const name = dirent.name.slice(0, -ENTRY_EXTENSION.length);
+				yield joinParts(keyPrefix, decodeURIComponent(name));
+			}
+		}
+	}
+
+	public async clear(prefix?: string): Promise<void> {
+		// Only entry files are deleted, since the directory may be shared with files not owned by the cache.
+		const toDel: string[] = [];
+		for await (const key of this.keys(prefix)) {
+			toDel.push(key);
+		}
+
+		await this.#deleteFiles(toDel.map((key) => this.#buildPath(key)));
+	}
+
+	public async clearPattern(pattern: string): Promise<void> {
+		const escapedPattern = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		const rx = new RegExp('^' + escapedPattern.replace(/\\\*/g, '.*') + '$');
+		const toDel: string[] = [];
+		for await (const key of this.keys()) {
+			if (rx.test(key)) {
+				toDel.push(key);
+			}
+		}
+
+		await this.#deleteFiles(toDel.map((key) => this.#buildPath(key)));
+	}
+
+	public async clearTags(...tags: string[]): Promise<void> {
+		const toDel: string[] = [];
+		for (const tag of tags) {
+			const tagDirectory = join(this.#buildDirectory(), encodeSegment(this.tagKey(tag)));
+			for await (const key of this.#walk(tagDirectory, '')) {
+				toDel.push(this.#buildTagPath(tag, key), this.#buildPath(key));
+			}
+		}
+
+		await this.#deleteFiles(toDel);
+	}
+
+	/**
+	 * Delete files, ignoring missing ones.
+	 *
+	 * @param paths File paths.
+	 */
+	async #deleteFiles(paths: string[]): Promise<void> {
+		await Promise.all(paths.map((path) => rm(path, { force: true })));
+	}
+
+	public async acquireLock(key: string, token: string, ttl: number): Promise<boolean> {
+		const path = this.#buildPath(key);
+		const data = `${JSON.stringify({ expiresAt: Date.now() + Math.round(ttl * 1000) })}\n${token}`;
+		const create = async (): Promise<boolean> => {
+			try {
+				await mkdir(dirname(path), { recursive: true });
+				await writeFile(path, data, { flag: 'wx' });
+
+				return true;
+			} catch (err) {
+				if (err instanceof Error && 'code' in err && err.code === 'EEXIST') {
+					return false;
+				}
+
+				throw err;
+			}
+		};
+
+		if (await create()) {
+			return true;
+		}
+
+		// Lock file is already present: take over if it has expired.
+		const current = await this.#readLock(path);
+		if (current !== undefined && Date.now() <= current.expiresAt) {
+			return false;
+		}
+
+		await rm(path, { force: true });
+
+		return create();
+	}
+
+	public async releaseLock(key: string, token: string): Promise<boolean> {
+		const path = this.#buildPath(key);
+		const current = await this.#readLock(path);
+		if (current?.token !== token) {
+			return false;
+		}
+
+		try {
+			await unlink(path);
+
+			return true;
+		} catch (err) {
+			if (!isNotFound(err)) {
+				throw err;
+			}
+
+			return false;
+		}
+	}
+
+	public async extendLock(key: string, token: string, ttl: number): Promise<boolean> {
+		const path = this.#buildPath(key);
+		const current = await this.#readLock(path);
+		if (current?.token !== token || Date.now() > current.expiresAt) {
+			return false;
+		}
+
+		await this.#writeAtomic(path, `${JSON.stringify({ expiresAt: Date.now() + Math.round(ttl * 1000) })}\n${token}`);
+
+		return true;
+	}
+
+	/**
+	 * Read owner token and expiration of a lock file.
+	 *
+	 * @param path Lock file path.
+	 */
+	async #readLock(path: string): Promise<{ token: string; expiresAt: number } | undefined> {
+		try {
+			const { meta, payload } = this.#unframe(await readFile(path));
+
+			return { token: payload.toString('utf-8'), expiresAt: meta.expiresAt ?? Infinity };
+		} catch {
+			return undefined;
+		}
+	}
+}
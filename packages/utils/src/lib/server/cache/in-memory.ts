@@ -1,64 +1,443 @@
 import kvjs from '@heyputer/kv.js';
-import { createJitter, JitterMode, type JitterFn } from '../../utils/misc.js';
+import { logger } from '../../logger.js';
+import { backoffRetry, createJitter, JitterMode, type JitterFn } from '../../utils/misc.js';
 import { addPrefix, stripPrefix } from '../../utils/string.js';
-import { BaseCache } from './base.js';
+import { secureId } from '../utils.js';
+import { BaseCache, type CacheEntry } from './base.js';
+import type { Invalidation, InvalidationOp, InvalidationTransport } from './invalidation.js';
+import { CacheMetrics } from './metrics.js';
 
-type InMemoryCacheOptions = { keyPrefix?: string; defaultTTL?: number; defaultJitter?: JitterMode | JitterFn };
+type InMemoryCacheOptions = {
+	keyPrefix?: string;
+	defaultTTL?: number;
+	defaultJitter?: JitterMode | JitterFn;
+	/** Maximum number of entries in the store, shared by all children. Least recently used entries are evicted first. */
+	maxItems?: number;
+	/** Maximum estimated size of entries in the store, expressed in bytes, shared by all children. */
+	maxBytes?: number;
+	/** Function to estimate the size of a value, expressed in bytes. Defaults to a rough estimate of memory usage. */
+	sizeOf?: (value: unknown) => number;
+	/** Transport to broadcast deletions to other replicas, and to apply theirs to the store. */
+	invalidation?: InvalidationTransport;
+};
+
+/** Options that apply to the whole store, and therefore cannot be changed by children. */
+type StoreOptions = 'maxItems' | 'maxBytes' | 'sizeOf' | 'invalidation';
+
+/** Envelope wrapping values in the underlying store, along with their metadata. */
+class StoredEntry<V> {
+	constructor(
+		public readonly value: V,
+		public readonly storedAt: number | undefined,
+		public readonly staleAt: number | undefined,
+		public readonly tags: readonly string[] | undefined,
+		public readonly tombstone: boolean | undefined,
+	) {}
+}
+
+/**
+ * Roughly estimate the memory usage of a value, expressed in bytes.
+ *
+ * @param value Value.
+ * @param seen Objects that have already been counted.
+ */
+const estimateSize = (value: unknown, seen = new WeakSet<object>()): number => {
+	switch (typeof value) {
+		case 'string':
+			return value.length * 2;
+		case 'number':
+		case 'bigint':
+			return 8;
+		case 'boolean':
+			return 4;
+		case 'object':
+			break;
+		default:
+			return 0;
+	}
+	if (value === null || seen.has(value)) {
+		return 0;
+	}
+
+	seen.add(value);
+	if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+		return value.byteLength;
+	}
+	if (value instanceof Date) {
+		return 8;
+	}
+	if (value instanceof Map) {
+		return [...value].reduce((size, [k, v]) => size + estimateSize(k, seen) + estimateSize(v, seen), 0);
+	}
+	if (value instanceof Set) {
+		return [...value].reduce((size, v) => size + estimateSize(v, seen), 0);
+	}
+
+	return Object.entries(value).reduce((size, [k, v]) => size + k.length * 2 + estimateSize(v, seen), 0);
+};
+
+/** Tracker of entries in a store, evicting least recently used ones when capacity is exceeded. */
+class LruTracker {
+	/** Estimated size of tracked entries, by key, from the least to the most recently used. */
+	readonly #sizes = new Map<string, number>();
+	#bytes = 0;
+
+	constructor(
+		private readonly store: kvjs,
+		private readonly maxItems: number,
+		private readonly maxBytes: number,
+	) {}
+
+	/**
+	 * Mark an entry as the most recently used one.
+	 *
+	 * @param key Key, including prefix.
+	 */
+	public touch(key: string): void {
+		const size = this.#sizes.get(key);
+		if (size !== undefined) {
+			this.#sizes.delete(key);
+			this.#sizes.set(key, size);
+		}
+	}
+
+	/**
+	 * Track an entry that has just been written, evicting other entries if needed.
+	 *
+	 * @param key Key, including prefix.
+	 * @param size Estimated size of the entry, expressed in bytes.
+	 * @returns Number of evicted entries.
+	 */
+	public add(key: string, size: number): number {
+		this.remove(key);
+		this.#sizes.set(key, size);
+		this.#bytes += size;
+		if (this.#sizes.size > this.maxItems || this.#bytes > this.maxBytes) {
+			// Expired entries must make room before any live entry is evicted.
+			this.remove(...[...this.#sizes.keys()].filter((tracked) => this.store.exists(tracked) === 0));
+		}
+
+		let evictions = 0;
+		for (const [oldest] of this.#sizes) {
+			if (this.#sizes.size <= this.maxItems && this.#bytes <= this.maxBytes) {
+				break;
+			}
+
+			// Entries might have expired in the meantime: those do not count as evictions.
+			evictions += this.store.del(oldest);
+			this.remove(oldest);
+		}
+
+		return evictions;
+	}
+
+	/**
+	 * Stop tracking entries that have been removed.
+	 *
+	 * @param keys Keys, including prefix.
+	 */
+	public remove(...keys: string[]): void {
+		for (const key of keys) {
+			this.#bytes -= this.#sizes.get(key) ?? 0;
+			this.#sizes.delete(key);
+		}
+	}
+}
+
+/** Bus broadcasting invalidations of a store to other replicas, and applying theirs. */
+class InvalidationBus {
+	readonly #origin = secureId(8);
+
+	/**
+	 * @param transport Transport of invalidation messages.
+	 * @param apply Function to apply invalidations received from other replicas.
+	 */
+	constructor(
+		private readonly transport: InvalidationTransport,
+		apply: (invalidation: Invalidation) => void,
+	) {
+		// Keep trying to subscribe, otherwise this replica would silently miss invalidations from the others.
+		backoffRetry(async () => {
+			try {
+				return await transport.subscribe((message) => {
+					if (message.origin !== this.#origin) {
+						apply(message);
+					}
+				});
+			} catch (err) {
+				logger.error({ err }, 'Got error while trying to subscribe to cache invalidations, retrying');
+
+				return undefined;
+			}
+		});
+	}
+
+	/**
+	 * Broadcast an invalidation to other replicas. Failures are logged, since the invalidation has been applied locally.
+	 *
+	 * @param invalidation Invalidation.
+	 */
+	public async publish(invalidation: Invalidation): Promise<void> {
+		try {
+			await this.transport.publish({ ...invalidation, origin: this.#origin });
+		} catch (err) {
+			logger.error({ err, invalidation }, 'Got error while trying to broadcast cache invalidation');
+		}
+	}
+}
 
 /** Simple cache with TTL and cap to maximum items stored. */
 export class InMemoryCache<V> extends BaseCache<V> {
 	readonly #options: InMemoryCacheOptions;
 	readonly #inner: kvjs;
+	readonly #lru: LruTracker | undefined;
+	readonly #bus: InvalidationBus | undefined;
+	protected readonly metrics: CacheMetrics;
 
 	public static init<V>(options: InMemoryCacheOptions): InMemoryCache<V> {
 		return new this<V>(options);
 	}
 
-	private constructor(options: InMemoryCacheOptions, store?: kvjs) {
+	private constructor(options: InMemoryCacheOptions, store?: kvjs, lru?: LruTracker, bus?: InvalidationBus) {
 		super();
 
 		this.#options = Object.freeze({ ...options });
 		this.#inner = store ?? new kvjs();
+		this.#lru =
+			lru ??
+			(options.maxItems !== undefined || options.maxBytes !== undefined
+				? new LruTracker(this.#inner, options.maxItems ?? Infinity, options.maxBytes ?? Infinity)
+				: undefined);
+		this.#bus = bus;
+		if (bus === undefined && options.invalidation !== undefined) {
+			// Invalidations are applied through a cache that does not broadcast them again.
+			const receiver = new InMemoryCache<V>({}, this.#inner, this.#lru);
+			this.#bus = new InvalidationBus(options.invalidation, (invalidation) =>
+				receiver.child(invalidation.keyPrefix).#apply(invalidation),
+			);
+		}
+		this.metrics = new CacheMetrics('in-memory', this.#options.keyPrefix);
 	}
 
 	public child<V2 extends V>(
 		keyPrefix: string,
-		options?: Partial<Omit<InMemoryCacheOptions, 'keyPrefix'>>,
+		options?: Partial<Omit<InMemoryCacheOptions, 'keyPrefix' | StoreOptions>>,
 	): InMemoryCache<V2> {
 		return new InMemoryCache<V2>(
 			{ ...this.#options, ...options, keyPrefix: addPrefix(this.#options.keyPrefix, keyPrefix) },
 			this.#inner,
+			this.#lru,
+			this.#bus,
 		);
 	}
 
-	public async get(key: string): Promise<V | undefined> {
-		return this.#inner.get(addPrefix(this.#options.keyPrefix, key)) as V | undefined;
+	@BaseCache.metered('get')
+	public async getEntry(key: string): Promise<CacheEntry<V> | undefined> {
+		return this.#read(key);
+	}
+
+	@BaseCache.metered('get')
+	public async getEntries(keys: readonly string[]): Promise<Map<string, CacheEntry<V>>> {
+		const entries = new Map<string, CacheEntry<V>>();
+		for (const key of keys) {
+			const entry = this.#read(key);
+			if (entry !== undefined) {
+				entries.set(key, entry);
+			}
+		}
+
+		return entries;
+	}
+
+	/**
+	 * Read an entry from the underlying store.
+	 *
+	 * @param key Key.
+	 */
+	#read(key: string): CacheEntry<V> | undefined {
+		const fullKey = addPrefix(this.#options.keyPrefix, key);
+		const stored = this.#inner.get(fullKey) as StoredEntry<V> | V | undefined;
+		if (stored === undefined) {
+			return undefined;
+		}
+
+		this.#lru?.touch(fullKey);
+		if (!(stored instanceof StoredEntry)) {
+			// Value has been written to the underlying store without metadata.
+			return { value: stored };
+		}
+
+		const { value, storedAt, staleAt, tags, tombstone } = stored;
+
+		return tombstone ? { storedAt, staleAt, tags, tombstone } : { value, storedAt, staleAt, tags };
 	}
 
-	public async set(
+	@BaseCache.metered('set')
+	public async setEntry(
 		key: string,
-		value: V,
+		entry: CacheEntry<V>,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<void> {
+		this.#write(key, entry, ttl, jitter);
+	}
+
+	@BaseCache.metered('set')
+	public async setEntries(
+		entries: Iterable<readonly [string, CacheEntry<V>]>,
 		ttl?: number | undefined,
 		jitter?: JitterMode | JitterFn | undefined,
 	): Promise<void> {
+		for (const [key, entry] of entries) {
+			this.#write(key, entry, ttl, jitter);
+		}
+	}
+
+	/**
+	 * Write an entry to the underlying store.
+	 *
+	 * @param key Key.
+	 * @param entry Entry to be stored.
+	 * @param ttl Time-to-live, expressed as number of seconds from current time.
+	 * @param jitter Jitter to apply to TTL.
+	 */
+	#write(key: string, entry: CacheEntry<V>, ttl: number | undefined, jitter: JitterMode | JitterFn | undefined): void {
+		const fullKey = addPrefix(this.#options.keyPrefix, key);
+		const px = this.#px(ttl, jitter);
+		const stored = new StoredEntry(entry.value, entry.storedAt, entry.staleAt, entry.tags, entry.tombstone);
+		this.#inner.set(fullKey, stored, { PX: px });
+		this.#track(fullKey, entry.value);
+
+		for (const tag of entry.tags ?? []) {
+			this.#index(tag, fullKey, px);
+		}
+	}
+
+	/**
+	 * Track an entry that has just been written, if the store is bounded.
+	 *
+	 * @param fullKey Key, including prefix.
+	 * @param value Value.
+	 */
+	#track(fullKey: string, value: V | undefined): void {
+		if (this.#lru === undefined) {
+			return;
+		}
+
+		const size = fullKey.length * 2 + (this.#options.sizeOf ?? estimateSize)(value);
+		const evictions = this.#lru.add(fullKey, size);
+		if (evictions > 0) {
+			this.metrics.recordEvictions(evictions);
+		}
+	}
+
+	/**
+	 * Compute time-to-live of an entry, applying defaults and jitter.
+	 *
+	 * @param ttl Time-to-live, expressed as number of seconds from current time.
+	 * @param jitter Jitter to apply to TTL.
+	 * @returns Time-to-live, expressed as number of milliseconds, or `undefined` if the entry never expires.
+	 */
+	#px(ttl: number | undefined, jitter: JitterMode | JitterFn | undefined): number | undefined {
 		ttl ??= this.#options.defaultTTL;
 
-		this.#inner.set(addPrefix(this.#options.keyPrefix, key), value, {
-			PX:
-				ttl !== undefined
-					? createJitter(jitter ?? this.#options.defaultJitter ?? JitterMode.None)(ttl * 1000)
-					: undefined,
-		});
+		return ttl !== undefined
+			? createJitter(jitter ?? this.#options.defaultJitter ?? JitterMode.None)(ttl * 1000)
+			: undefined;
+	}
+
+	/**
+	 * Add a key to the index of entries carrying a tag, making sure the index does not expire before the entry.
+	 *
+	 * @param tag Tag.
+	 * @param fullKey Key, including prefix.
+	 * @param px Time-to-live of the entry, expressed as number of milliseconds.
+	 */
+	#index(tag: string, fullKey: string, px: number | undefined): void {
+		const tagKey = addPrefix(this.#options.keyPrefix, this.tagKey(tag));
+		const existed = this.#inner.exists(tagKey) > 0;
+		const currentPx = this.#inner.pttl(tagKey);
+		this.#inner.sadd(tagKey, fullKey);
+		if (px === undefined) {
+			this.#inner.persist(tagKey);
+		} else if (!existed || (currentPx >= 0 && currentPx < px)) {
+			this.#inner.pexpire(tagKey, px);
+		}
+	}
+
+	public async ttl(key: string): Promise<number | undefined> {
+		const px = this.#inner.pttl(addPrefix(this.#options.keyPrefix, key));
+
+		return px === -2 ? undefined : px === -1 ? Infinity : px / 1000;
+	}
+
+	public async touch(
+		key: string,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<boolean> {
+		const fullKey = addPrefix(this.#options.keyPrefix, key);
+		const stored = this.#inner.get(fullKey) as StoredEntry<V> | V | undefined;
+		if (stored === undefined) {
+			return false;
+		}
+
+		const px = this.#px(ttl, jitter);
+		if (px === undefined) {
+			this.#inner.persist(fullKey);
+		} else {
+			this.#inner.pexpire(fullKey, px);
+		}
+		this.#lru?.touch(fullKey);
+
+		for (const tag of stored instanceof StoredEntry ? (stored.tags ?? []) : []) {
+			this.#index(tag, fullKey, px);
+		}
+
+		return true;
+	}
+
+	public async increment(
+		key: string,
+		delta = 1,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<number> {
+		// Reads and writes are synchronous, hence atomic.
+		const current = this.#read(key);
+		if (current === undefined || current.tombstone) {
+			this.#write(key, { value: delta as V, storedAt: Date.now() }, ttl, jitter);
+
+			return delta;
+		}
+		if (!Number.isInteger(current.value)) {
+			throw new TypeError(`Value of key ${key} is not an integer`);
+		}
+
+		const value = (current.value as number) + delta;
+		const fullKey = addPrefix(this.#options.keyPrefix, key);
+		const stored = new StoredEntry(value as V, current.storedAt, current.staleAt, current.tags, undefined);
+		this.#inner.set(fullKey, stored, { KEEPTTL: true });
+		this.#track(fullKey, value as V);
+
+		return value;
 	}
 
+	@BaseCache.metered('delete')
 	public async delete(key: string): Promise<void> {
-		this.#inner.del(addPrefix(this.#options.keyPrefix, key));
+		await this.#invalidate({ op: 'delete', keys: [key] });
+	}
+
+	@BaseCache.metered('delete')
+	public async deleteMany(keys: readonly string[]): Promise<void> {
+		await this.#invalidate({ op: 'delete', keys: [...keys] });
 	}
 
 	public async *keys(prefix?: string): AsyncGenerator<string, void, undefined> {
 		yield* this.#inner
 			.keys(addPrefix(this.#options.keyPrefix, `${prefix ?? ''}*`))
-			.map((key) => stripPrefix(this.#options.keyPrefix, key)!);
+			.map((key) => stripPrefix(this.#options.keyPrefix, key)!)
+			.filter((key) => !this.isInternalKey(key));
 	}
 
 	public clear(prefix?: string): Promise<void> {
@@ -66,6 +445,89 @@ export class InMemoryCache<V> extends BaseCache<V> {
 	}
 
 	public async clearPattern(pattern: string): Promise<void> {
-		this.#inner.del(...this.#inner.keys(addPrefix(this.#options.keyPrefix, pattern)));
+		await this.#invalidate({ op: 'clearPattern', pattern });
+	}
+
+	public async clearTags(...tags: string[]): Promise<void> {
+		await this.#invalidate({ op: 'clearTags', tags });
+	}
+
+	/**
+	 * Apply an invalidation to the store, and broadcast it to other replicas.
+	 *
+	 * @param op Invalidation operation.
+	 */
+	async #invalidate(op: InvalidationOp): Promise<void> {
+		const invalidation: Invalidation = { ...op, keyPrefix: this.#options.keyPrefix ?? '' };
+		this.#apply(invalidation);
+
+		await this.#bus?.publish(invalidation);
+	}
+
+	/**
+	 * Apply an invalidation to the store.
+	 *
+	 * @param invalidation Invalidation. Key prefix is expected to match the one of this cache.
+	 */
+	#apply(invalidation: Invalidation): void {
+		switch (invalidation.op) {
+			case 'delete':
+				this.#del(...invalidation.keys.map((key) => addPrefix(this.#options.keyPrefix, key)));
+				break;
+			case 'clearPattern':
+				this.#del(
+					...this.#inner
+						.keys(addPrefix(this.#options.keyPrefix, invalidation.pattern))
+						.filter((key) => !this.isInternalKey(stripPrefix(this.#options.keyPrefix, key)!)),
+				);
+				break;
+			case 'clearTags': {
+				const tagKeys = invalidation.tags
+					.map((tag) => addPrefix(this.#options.keyPrefix, this.tagKey(tag)))
+					.filter((tagKey) => this.#inner.exists(tagKey) > 0);
+
+				this.#del(...tagKeys.flatMap((tagKey) => this.#inner.smembers(tagKey) as string[]), ...tagKeys);
+				break;
+			}
+		}
+	}
+
+	/**
+	 * Remove keys from the underlying store.
+	 *
+	 * @param fullKeys Keys, including prefix.
+	 */
+	#del(...fullKeys: string[]): void {
+		this.#inner.del(...fullKeys);
+		this.#lru?.remove(...fullKeys);
+	}
+
+	public async acquireLock(key: string, token: string, ttl: number): Promise<boolean> {
+		const lockKey = addPrefix(this.#options.keyPrefix, key);
+		if (this.#inner.get(lockKey) !== undefined) {
+			return false;
+		}
+
+		this.#inner.set(lockKey, token, { PX: ttl * 1000 });
+
+		return true;
+	}
+
+	public async releaseLock(key: string, token: string): Promise<boolean> {
+		const lockKey = addPrefix(this.#options.keyPrefix, key);
+		if (this.#inner.get(lockKey) !== token) {
+			return false;
+		}
+
+		return this.#inner.del(lockKey) > 0;
+	}
+
+	public async extendLock(key: string, token: string, ttl: number): Promise<boolean> {
+		const lockKey = addPrefix(this.#options.keyPrefix, key);
+		if (this.#inner.get(lockKey) !== token) {
+			return false;
+		}
+
+		return this.#inner.pexpire(lockKey, ttl * 1000) === 1;
 	}
 }
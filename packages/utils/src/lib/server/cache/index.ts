@@ -1,4 +1,12 @@
 export * from './base.js';
+export * from './circuit-breaker.js';
+export * from './codecs.js';
+export * from './file-system.js';
 export * from './in-memory.js';
+export * from './invalidation.js';
+export * from './lock.js';
+export * from './metrics.js';
 export * from './redis.js';
 export * from './s3.js';
+export * from './sqlite.js';
+export * from './tiered.js';
@@ -0,0 +1,57 @@
+/** Operation invalidating cache entries, relative to the key prefix of a cache. */
+export type InvalidationOp =
+	| { op: 'delete'; keys: string[] }
+	| { op: 'clearPattern'; pattern: string }
+	| { op: 'clearTags'; tags: string[] };
+
+/** Invalidation of cache entries. */
+export type Invalidation = InvalidationOp & {
+	/** Key prefix of the cache where the invalidation happened. */
+	keyPrefix: string;
+};
+
+/** Invalidation broadcast to every replica sharing a transport. */
+export type InvalidationMessage = Invalidation & {
+	/** Identifier of the replica that sent the message. */
+	origin: string;
+};
+
+/** Listener of invalidation messages. */
+export type InvalidationListener = (message: InvalidationMessage) => void;
+
+/** Transport of invalidation messages between replicas. */
+export interface InvalidationTransport {
+	/**
+	 * Broadcast a message to all subscribers, including the sender.
+	 *
+	 * @param message Message.
+	 */
+	publish(message: InvalidationMessage): Promise<void>;
+
+	/**
+	 * Listen for messages.
+	 *
+	 * @param listener Listener.
+	 * @returns Function to stop listening.
+	 */
+	subscribe(listener: InvalidationListener): Promise<() => Promise<void>>;
+}
+
+/** Transport delivering messages within the current process, mainly meant for tests. */
+export class InProcessInvalidationTransport implements InvalidationTransport {
+	readonly #listeners = new Set<InvalidationListener>();
+
+	public async publish(message: InvalidationMessage): Promise<void> {
+		for (const listener of this.#listeners) {
+			listener(structuredClone(message));
+		}
+	}
+
+	public async subscribe(listener: InvalidationListener): Promise<() => Promise<void>> {
+		this.#listeners.add(listener);
+
+		return async () => {
+			this.#listeners.delete(listener);
+		};
+	}
+}
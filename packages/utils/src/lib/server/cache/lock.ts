@@ -0,0 +1,50 @@
+import type { BaseCache } from './base.js';
+
+export type LockOptions = {
+	/** Maximum time to wait for the lock to be released by its current holder, expressed as number of seconds. Defaults to 0. */
+	wait?: number;
+};
+
+/** Error thrown when a lock cannot be acquired. */
+export class LockError extends Error {
+	constructor(
+		public readonly key: string,
+		options?: ErrorOptions,
+	) {
+		super(`Could not acquire lock for key ${key}`, options);
+		this.name = 'LockError';
+	}
+}
+
+/** Lock held in a cache backend, see {@see BaseCache.acquire()}. */
+export class Lock {
+	/**
+	 * @param cache Cache holding the lock.
+	 * @param lockKey Key of the lock in the cache.
+	 * @param token Token identifying the lock owner.
+	 */
+	constructor(
+		private readonly cache: Pick<BaseCache<unknown>, 'releaseLock' | 'extendLock'>,
+		private readonly lockKey: string,
+		public readonly token: string,
+	) {}
+
+	/**
+	 * Release the lock.
+	 *
+	 * @returns Whether the lock has been released, i.e. it was still held.
+	 */
+	public release(): Promise<boolean> {
+		return this.cache.releaseLock(this.lockKey, this.token);
+	}
+
+	/**
+	 * Extend the lock.
+	 *
+	 * @param ttl New lock time-to-live, expressed as number of seconds from current time.
+	 * @returns Whether the lock has been extended, i.e. it was still held.
+	 */
+	public extend(ttl: number): Promise<boolean> {
+		return this.cache.extendLock(this.lockKey, this.token, ttl);
+	}
+}
@@ -0,0 +1,177 @@
+import api, { type Attributes, type Counter, type Histogram, type Meter } from '@opentelemetry/api';
+
+/** Kind of cache operation, used to tag metrics. */
+export type CacheOperation = 'get' | 'set' | 'delete';
+
+/** Snapshot of cache counters, as collected in this process. */
+export type CacheStats = {
+	/** Number of keys found in cache. */
+	hits: number;
+	/** Number of keys not found in cache. */
+	misses: number;
+	/** Ratio of hits over reads, or `undefined` if nothing has been read yet. */
+	hitRatio: number | undefined;
+	/** Number of keys written to cache. */
+	sets: number;
+	/** Number of keys removed from cache. */
+	deletes: number;
+	/** Number of failed operations. */
+	errors: number;
+	/** Number of keys evicted to make room for new ones. Only counted by backends with bounded capacity. */
+	evictions: number;
+	/** Total size of values read from cache, expressed in bytes. Only counted by backends that serialize values. */
+	bytesRead: number;
+	/** Total size of values written to cache, expressed in bytes. Only counted by backends that serialize values. */
+	bytesWritten: number;
+};
+
+type Instruments = {
+	hits: Counter;
+	misses: Counter;
+	sets: Counter;
+	deletes: Counter;
+	errors: Counter;
+	evictions: Counter;
+	duration: Histogram;
+	size: Histogram;
+};
+
+let currentMeter: Meter | undefined;
+let currentInstruments: Instruments | undefined;
+
+/**
+ * Get instruments from the meter of the global meter provider. Instruments are re-created whenever the global
+ * meter provider changes, since a meter provider might be registered after caches have been created.
+ */
+const getInstruments = (): Instruments => {
+	const meter = api.metrics.getMeter('@chialab/sveltekit-utils');
+	if (meter !== currentMeter || currentInstruments === undefined) {
+		currentMeter = meter;
+		currentInstruments = {
+			hits: meter.createCounter('cache.hits', { description: 'Number of keys found in cache.' }),
+			misses: meter.createCounter('cache.misses', { description: 'Number of keys not found in cache.' }),
+			sets: meter.createCounter('cache.sets', { description: 'Number of keys written to cache.' }),
+			deletes: meter.createCounter('cache.deletes', { description: 'Number of keys removed from cache.' }),
+			errors: meter.createCounter('cache.errors', { description: 'Number of failed cache operations.' }),
+			evictions: meter.createCounter('cache.evictions', {
+				description: 'Number of keys evicted to make room for new ones.',
+			}),
+			duration: meter.createHistogram('cache.operation.duration', {
+				description: 'Duration of cache operations.',
+				unit: 's',
+			}),
+			size: meter.createHistogram('cache.value.size', {
+				description: 'Size of serialized values read from or written to cache.',
+				unit: 'By',
+			}),
+		};
+	}
+
+	return currentInstruments;
+};
+
+/** Collector of metrics of a cache instance, both exported through OpenTelemetry and kept in-process. */
+export class CacheMetrics {
+	readonly #attributes: Attributes;
+	readonly #stats = { hits: 0, misses: 0, sets: 0, deletes: 0, errors: 0, evictions: 0, bytesRead: 0, bytesWritten: 0 };
+
+	/**
+	 * @param backend Backend type, e.g. `redis`.
+	 * @param keyPrefix Key prefix of the cache instance.
+	 */
+	constructor(backend: string, keyPrefix: string | undefined) {
+		this.#attributes = Object.freeze({ 'cache.backend': backend, 'cache.key_prefix': keyPrefix ?? '' });
+	}
+
+	/**
+	 * Record keys found and not found in cache.
+	 *
+	 * @param hits Number of keys found.
+	 * @param misses Number of keys not found.
+	 */
+	public recordReads(hits: number, misses: number): void {
+		this.#stats.hits += hits;
+		this.#stats.misses += misses;
+		const { hits: hitsCounter, misses: missesCounter } = getInstruments();
+		if (hits > 0) {
+			hitsCounter.add(hits, this.#attributes);
+		}
+		if (misses > 0) {
+			missesCounter.add(misses, this.#attributes);
+		}
+	}
+
+	/**
+	 * Record keys written to cache.
+	 *
+	 * @param count Number of keys.
+	 */
+	public recordSets(count: number): void {
+		this.#stats.sets += count;
+		getInstruments().sets.add(count, this.#attributes);
+	}
+
+	/**
+	 * Record keys removed from cache.
+	 *
+	 * @param count Number of keys.
+	 */
+	public recordDeletes(count: number): void {
+		this.#stats.deletes += count;
+		getInstruments().deletes.add(count, this.#attributes);
+	}
+
+	/**
+	 * Record a failed operation.
+	 *
+	 * @param operation Operation.
+	 */
+	public recordError(operation: CacheOperation): void {
+		this.#stats.errors++;
+		getInstruments().errors.add(1, { ...this.#attributes, 'cache.operation': operation });
+	}
+
+	/**
+	 * Record keys evicted to make room for new ones.
+	 *
+	 * @param count Number of keys.
+	 */
+	public recordEvictions(count: number): void {
+		this.#stats.evictions += count;
+		getInstruments().evictions.add(count, this.#attributes);
+	}
+
+	/**
+	 * Record the duration of an operation.
+	 *
+	 * @param operation Operation.
+	 * @param ms Duration, expressed as number of milliseconds.
+	 */
+	public recordDuration(operation: CacheOperation, ms: number): void {
+		getInstruments().duration.record(ms / 1000, { ...this.#attributes, 'cache.operation': operation });
+	}
+
+	/**
+	 * Record the size of a serialized value read from or written to cache.
+	 *
+	 * @param operation Operation.
+	 * @param bytes Size, expressed as number of bytes.
+	 */
+	public recordSize(operation: Exclude<CacheOperation, 'delete'>, bytes: number): void {
+		if (operation === 'get') {
+			this.#stats.bytesRead += bytes;
+		} else {
+			this.#stats.bytesWritten += bytes;
+		}
+		getInstruments().size.record(bytes, { ...this.#attributes, 'cache.operation': operation });
+	}
+
+	/**
+	 * Take a snapshot of counters collected so far.
+	 */
+	public stats(): CacheStats {
+		const reads = this.#stats.hits + this.#stats.misses;
+
+		return { ...this.#stats, hitRatio: reads > 0 ? this.#stats.hits / reads : undefined };
+	}
+}
@@ -1,4 +1,5 @@
 import {
+	commandOptions,
 	createClient,
 	createCluster,
 	type RedisClientOptions,
@@ -10,21 +11,145 @@ import {
 import { logger } from '../../logger.js';
 import { createJitter, JitterMode, type JitterFn } from '../../utils/misc.js';
 import { addPrefix, stripPrefix } from '../../utils/string.js';
-import { BaseCache } from './base.js';
+import { BaseCache, type CacheEntry } from './base.js';
+import { CircuitBreaker, CircuitOpenError, type CircuitBreakerOptions } from './circuit-breaker.js';
+import { CodecError, resolveCodec, type Codec, type CodecName, type Decoded } from './codecs.js';
+import type { InvalidationListener, InvalidationMessage, InvalidationTransport } from './invalidation.js';
+import { CacheMetrics, type CacheOperation } from './metrics.js';
 
-type RedisCacheOptions = {
+type RedisCacheOptions<C extends CodecName | Codec = 'json'> = {
 	keyPrefix?: string;
 	defaultTTL?: number;
 	defaultJitter?: JitterMode | JitterFn;
+	/** Codec used to serialize values. Defaults to `'json'`. */
+	codec?: C;
+	/**
+	 * Fail open when Redis is unhealthy: operations are subject to timeouts and to a circuit breaker shared with children,
+	 * and failures are logged and treated as misses instead of being thrown. Operations time out after 1 second, unless
+	 * configured otherwise. Disabled by default.
+	 */
+	resilience?: CircuitBreakerOptions | boolean;
 };
 
-type Jsonify<T> = T extends { toJSON(): infer U }
-	? U
-	: T extends Promise<unknown>
-		? never
-		: T extends object
-			? { [k in keyof T]: Jsonify<T[k]> }
-			: T;
+/**
+ * Marker prepended to values stored along with their metadata. Values are always written with metadata,
+ * so data lacking the marker is either a counter or has been written by older versions, and is decoded as a whole.
+ */
+const ENTRY_MARKER = 0x01;
+
+/** Counters are stored by `INCRBY` as plain integers, which must be read back as numbers regardless of the codec. */
+const COUNTER_PATTERN = /^-?\d+$/;
+
+/** Separator between metadata and serialized value. Metadata is serialized as JSON, which never contains raw newlines. */
+const ENTRY_SEPARATOR = 0x0a;
+
+/**
+ * Prepend entry metadata to a serialized value.
+ *
+ * @param entry Cache entry.
+ * @param payload Serialized value.
+ */
+const frameEntry = (
+	{ storedAt, staleAt, tags, tombstone }: CacheEntry<unknown>,
+	payload: string | Uint8Array,
+): Buffer =>
+	Buffer.concat([
+		Buffer.from([ENTRY_MARKER]),
+		Buffer.from(JSON.stringify({ storedAt, staleAt, tags, tombstone })),
+		Buffer.from([ENTRY_SEPARATOR]),
+		typeof payload === 'string' ? Buffer.from(payload) : payload,
+	]);
+
+/**
+ * Split entry metadata from a serialized value. Values stored without metadata are returned as they are.
+ *
+ * @param raw Stored data.
+ */
+const unframeEntry = (raw: Buffer): { meta: Omit<CacheEntry<unknown>, 'value'>; payload: Buffer } => {
+	if (raw[0] !== ENTRY_MARKER) {
+		return { meta: {}, payload: raw };
+	}
+
+	const idx = raw.indexOf(ENTRY_SEPARATOR);
+	if (idx === -1) {
+		throw new CodecError('entry', 'Missing separator between entry metadata and value');
+	}
+
+	try {
+		return { meta: JSON.parse(raw.subarray(1, idx).toString('utf-8')), payload: raw.subarray(idx + 1) };
+	} catch (err) {
+		throw new CodecError('entry', 'Could not decode entry metadata', { cause: err });
+	}
+};
+
+/**
+ * Compute the Redis Cluster hash slot of a key, i.e. CRC16 of the key (or of its hash tag) modulo 16384.
+ *
+ * @param key Key.
+ */
+export const hashSlot = (key: string): number => {
+	const start = key.indexOf('{');
+	const end = start !== -1 ? key.indexOf('}', start + 1) : -1;
+	const hashed = end > start + 1 ? key.slice(start + 1, end) : key;
+
+	let crc = 0;
+	for (const byte of new TextEncoder().encode(hashed)) {
+		crc ^= byte << 8;
+		for (let i = 0; i < 8; i++) {
+			crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+		}
+	}
+
+	return crc % 16384;
+};
+
+/** Delete a key only if it holds the expected value. */
+const RELEASE_LOCK_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end`;
+
+/** Extend a lock (TTL in milliseconds), only if it is still held by the owner identified by the token. */
+const EXTEND_LOCK_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('pexpire', KEYS[1], ARGV[2]) else return 0 end`;
+
+/** Increment a counter, setting its TTL (in milliseconds, or empty) only when it is created. */
+const INCREMENT_SCRIPT = `local existed = redis.call('exists', KEYS[1])
+local value = redis.call('incrby', KEYS[1], ARGV[1])
+if existed == 0 and ARGV[2] ~= '' then
+	redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return value`;
+
+/** Add a key to a tag index, making sure the index does not expire before the entry (TTL in milliseconds, or empty). */
+const INDEX_TAG_SCRIPT = `local existed = redis.call('exists', KEYS[1])
+local current = redis.call('pttl', KEYS[1])
+redis.call('sadd', KEYS[1], ARGV[1])
+if ARGV[2] == '' then
+	redis.call('persist', KEYS[1])
+elseif existed == 0 or (current >= 0 and current < tonumber(ARGV[2])) then
+	redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 1`;
+
+/**
+ * Set the TTL of an entry (in milliseconds, or empty), only if it exists, adding it to the tag indexes passed as
+ * remaining keys and making sure those do not expire before the entry.
+ */
+const TOUCH_SCRIPT = `if redis.call('exists', KEYS[1]) == 0 then
+	return 0
+end
+if ARGV[1] == '' then
+	redis.call('persist', KEYS[1])
+else
+	redis.call('pexpire', KEYS[1], ARGV[1])
+end
+for i = 2, #KEYS do
+	local current = redis.call('pttl', KEYS[i])
+	redis.call('sadd', KEYS[i], KEYS[1])
+	if ARGV[1] == '' then
+		redis.call('persist', KEYS[i])
+	elseif current == -2 or (current >= 0 and current < tonumber(ARGV[1])) then
+		redis.call('pexpire', KEYS[i], ARGV[1])
+	end
+end
+return 1`;
 
 type RedisClientOrCluster =
 	| RedisClientType<RedisDefaultModules, Record<string, never>, Record<string, never>>
@@ -33,36 +158,77 @@ type RedisClientOrClusterOptions =
 	| RedisClientOptions<RedisDefaultModules, Record<string, never>, Record<string, never>>
 	| RedisClusterOptions<RedisDefaultModules, Record<string, never>, Record<string, never>>;
 
-export class RedisCache<V> extends BaseCache<V | Jsonify<V>> {
-	readonly #options: RedisCacheOptions;
+export class RedisCache<V, C extends CodecName | Codec = 'json'> extends BaseCache<V | Decoded<V, C>> {
+	readonly #options: RedisCacheOptions<C>;
 	readonly #client: RedisClientOrCluster;
+	readonly #codec: Codec;
+	readonly #breaker: CircuitBreaker | undefined;
+	protected readonly metrics: CacheMetrics;
 	#connectPromise?: Promise<unknown>;
 
-	public static init<V>(redisOptions: RedisClientOrClusterOptions, options: RedisCacheOptions): RedisCache<V> {
+	public static init<V, C extends CodecName | Codec = 'json'>(
+		redisOptions: RedisClientOrClusterOptions,
+		options: RedisCacheOptions<C>,
+	): RedisCache<V, C> {
 		const client = 'rootNodes' in redisOptions ? createCluster(redisOptions) : createClient(redisOptions);
 
 		return new this(options, client);
 	}
 
-	private constructor(options: RedisCacheOptions, client: RedisClientOrCluster) {
+	private constructor(options: RedisCacheOptions<C>, client: RedisClientOrCluster, breaker?: CircuitBreaker) {
 		super();
 
 		this.#options = options;
 		this.#client = client;
+		this.#codec = resolveCodec(options.codec ?? 'json');
+		this.metrics = new CacheMetrics('redis', options.keyPrefix);
+		this.#breaker = breaker ?? this.#createBreaker();
 
 		const loggingInfo = {
 			...this.#options,
+			codec: this.#codec.name,
 			url: 'masters' in this.#client ? this.#client.masters.map(({ address }) => address) : this.#client.options?.url,
 		};
 		this.#client
 			.on('ready', () => logger.info({ ...loggingInfo }, 'Connected to Redis'))
 			.on('error', (err: Error) => logger.error({ err, ...loggingInfo }, 'Redis error'))
-			.on('reconnecting', () => logger.warn({ ...loggingInfo }, 'Attempting re-connection to Redis'));
+			.on('reconnecting', () => logger.warn({ ...loggingInfo }, 'Attempting re-connection to Redis'))
+			.on('end', () => {
+				// Connection has been closed for good: next operation will connect again.
+				this.#connectPromise = undefined;
+			});
+	}
+
+	/**
+	 * Create the circuit breaker shared by this cache and its children, if resilience is enabled.
+	 */
+	#createBreaker(): CircuitBreaker | undefined {
+		const { resilience } = this.#options;
+		if (!resilience) {
+			return undefined;
+		}
+
+		const loggingInfo = { keyPrefix: this.#options.keyPrefix };
+		const breaker = new CircuitBreaker({ operationTimeout: 1000, ...(resilience === true ? {} : resilience) });
+		breaker
+			.on('open', () => logger.warn({ ...loggingInfo }, 'Redis circuit opened, cache operations will fail open'))
+			.on('half-open', () => logger.info({ ...loggingInfo }, 'Redis circuit half-open, trying a cache operation'))
+			.on('closed', () => logger.info({ ...loggingInfo }, 'Redis circuit closed, cache operations restored'));
+
+		return breaker;
+	}
+
+	/** Circuit breaker guarding operations, if resilience is enabled. Listen to its events to track Redis health. */
+	public get circuitBreaker(): CircuitBreaker | undefined {
+		return this.#breaker;
 	}
 
 	async #connect(): Promise<RedisClientOrCluster> {
 		if (this.#connectPromise === undefined) {
-			this.#connectPromise = this.#client.connect();
+			this.#connectPromise = this.#client.connect().catch((err) => {
+				this.#connectPromise = undefined;
+				throw err;
+			});
 		}
 
 		await this.#connectPromise;
@@ -70,78 +236,418 @@ export class RedisCache<V> extends BaseCache<V | Jsonify<V>> {
 		return this.#client;
 	}
 
+	/**
+	 * Execute an operation against Redis. If resilience is enabled, the operation is guarded by the circuit breaker
+	 * and, when a fallback is provided, failures are recorded and logged, and the fallback value is returned instead.
+	 *
+	 * @param operation Kind of operation, used to record errors.
+	 * @param fn Operation.
+	 * @param fallback Function returning the value to use when the operation fails.
+	 */
+	async #execute<T>(
+		operation: CacheOperation,
+		fn: (client: RedisClientOrCluster) => Promise<T>,
+		fallback?: () => T,
+	): Promise<T> {
+		if (this.#breaker === undefined) {
+			return fn(await this.#connect());
+		}
+
+		try {
+			return await this.#breaker.execute(async () => fn(await this.#connect()));
+		} catch (err) {
+			if (fallback === undefined) {
+				throw err;
+			}
+
+			this.metrics.recordError(operation);
+			if (!(err instanceof CircuitOpenError)) {
+				logger.error({ err, operation }, 'Got error while executing Redis operation, failing open');
+			}
+
+			return fallback();
+		}
+	}
+
 	public child<V2 extends V>(
 		keyPrefix: string,
-		options?: Partial<Omit<RedisCacheOptions, 'keyPrefix'>>,
-	): RedisCache<V2> {
-		return new RedisCache<V2>(
+		options?: Partial<Omit<RedisCacheOptions<C>, 'keyPrefix'>>,
+	): RedisCache<V2, C> {
+		return new RedisCache<V2, C>(
 			{
 				...this.#options,
 				...options,
 				keyPrefix: addPrefix(this.#options.keyPrefix, keyPrefix),
 			},
 			this.#client.duplicate(),
+			this.#breaker,
 		);
 	}
 
-	public async get(key: string): Promise<Jsonify<V> | undefined> {
-		const client = await this.#connect();
-		const val = await client.get(addPrefix(this.#options.keyPrefix, key));
-		if (val === null) {
-			return undefined;
-		}
+	public async get(key: string): Promise<Decoded<V, C> | undefined> {
+		const entry = await this.getEntry(key);
 
+		return entry?.tombstone ? undefined : entry?.value;
+	}
+
+	@BaseCache.metered('get')
+	public async getEntry(key: string): Promise<CacheEntry<Decoded<V, C>> | undefined> {
+		const val = await this.#execute(
+			'get',
+			(client) => client.get(commandOptions({ returnBuffers: true }), addPrefix(this.#options.keyPrefix, key)),
+			() => null,
+		);
+
+		return val !== null ? this.#decode(key, val) : undefined;
+	}
+
+	@BaseCache.metered('get')
+	public async getEntries(keys: readonly string[]): Promise<Map<string, CacheEntry<Decoded<V, C>>>> {
+		const entries = new Map<string, CacheEntry<Decoded<V, C>>>();
+		await this.#execute(
+			'get',
+			(client) =>
+				Promise.all(
+					this.#groupBySlot(client, keys, (key) => addPrefix(this.#options.keyPrefix, key)).map(async (group) => {
+						const vals = await client.mGet(
+							commandOptions({ returnBuffers: true }),
+							group.map((key) => addPrefix(this.#options.keyPrefix, key)),
+						);
+						group.forEach((key, idx) => {
+							const val = vals[idx];
+							const entry = val !== null && val !== undefined ? this.#decode(key, val) : undefined;
+							if (entry !== undefined) {
+								entries.set(key, entry);
+							}
+						});
+					}),
+				),
+			() => [],
+		);
+
+		return new Map(keys.filter((key) => entries.has(key)).map((key) => [key, entries.get(key)!]));
+	}
+
+	/**
+	 * Decode an entry stored in Redis.
+	 *
+	 * @param key Key.
+	 * @param val Stored data.
+	 */
+	#decode(key: string, val: Buffer): CacheEntry<Decoded<V, C>> | undefined {
+		this.metrics.recordSize('get', val.length);
 		try {
-			return JSON.parse(val) satisfies Jsonify<V>;
+			const {
+				meta: { tombstone, ...meta },
+				payload,
+			} = unframeEntry(val);
+
+			if (tombstone) {
+				return { ...meta, tombstone };
+			}
+			if (val[0] !== ENTRY_MARKER && COUNTER_PATTERN.test(val.toString('latin1'))) {
+				return { ...meta, value: Number(val.toString('latin1')) as Decoded<V, C> };
+			}
+
+			return { ...meta, value: this.#codec.decode(payload, addPrefix(this.#options.keyPrefix, key)) as Decoded<V, C> };
 		} catch (err) {
-			if (!(err instanceof SyntaxError)) {
+			if (!(err instanceof CodecError)) {
 				throw err;
 			}
 
-			logger.warn('Malformed JSON data');
-			logger.debug({ val, key }, 'Could not parse JSON data stored in Redis cache');
+			this.metrics.recordError('get');
+			logger.warn(`Malformed ${this.#codec.name} data`);
+			logger.debug({ val, key, err }, `Could not parse ${this.#codec.name} data stored in Redis cache`);
 
 			return undefined;
 		}
 	}
 
-	public async set(
+	/**
+	 * Encode an entry to be stored in Redis.
+	 *
+	 * @param key Key.
+	 * @param entry Cache entry.
+	 */
+	#encode(key: string, entry: CacheEntry<V | Decoded<V, C>>): Buffer {
+		const val = frameEntry(
+			entry,
+			entry.tombstone ? '' : this.#codec.encode(entry.value, addPrefix(this.#options.keyPrefix, key)),
+		);
+		this.metrics.recordSize('set', val.length);
+
+		return val;
+	}
+
+	@BaseCache.metered('set')
+	public async setEntry(
 		key: string,
-		value: V | Jsonify<V>,
+		entry: CacheEntry<V | Decoded<V, C>>,
 		ttl?: number | undefined,
 		jitter?: JitterMode | JitterFn | undefined,
 	): Promise<void> {
 		ttl ??= this.#options.defaultTTL;
-		const client = await this.#connect();
-		const val = JSON.stringify(value);
+		const val = this.#encode(key, entry);
 		try {
-			if (ttl === undefined) {
-				await client.set(addPrefix(this.#options.keyPrefix, key), val);
-			} else {
-				const jitterFn = createJitter(jitter ?? this.#options.defaultJitter ?? JitterMode.None);
-				await client.setEx(addPrefix(this.#options.keyPrefix, key), Math.round(jitterFn(ttl)), val);
-			}
+			await this.#execute('set', async (client) => {
+				const fullKey = addPrefix(this.#options.keyPrefix, key);
+				let seconds: number | undefined;
+				if (ttl === undefined) {
+					await client.set(fullKey, val);
+				} else {
+					const jitterFn = createJitter(jitter ?? this.#options.defaultJitter ?? JitterMode.None);
+					seconds = Math.round(jitterFn(ttl));
+					await client.setEx(fullKey, seconds, val);
+				}
+
+				await this.#indexTags(client, fullKey, entry.tags, seconds !== undefined ? seconds * 1000 : undefined);
+			});
 		} catch (err) {
-			logger.error({ key, err }, 'Got error while trying to set cache key');
+			this.metrics.recordError('set');
+			if (!(err instanceof CircuitOpenError)) {
+				logger.error({ key, err }, 'Got error while trying to set cache key');
+			}
+		}
+	}
+
+	@BaseCache.metered('set')
+	public async setEntries(
+		entries: Iterable<readonly [string, CacheEntry<V | Decoded<V, C>>]>,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<void> {
+		ttl ??= this.#options.defaultTTL;
+		const jitterFn = createJitter(jitter ?? this.#options.defaultJitter ?? JitterMode.None);
+		const items = new Map(
+			[...entries].map(([key, entry]) => [
+				key,
+				{
+					fullKey: addPrefix(this.#options.keyPrefix, key),
+					val: this.#encode(key, entry),
+					seconds: ttl !== undefined ? Math.round(jitterFn(ttl)) : undefined,
+					tags: entry.tags,
+				},
+			]),
+		);
+
+		await Promise.all(
+			this.#groupBySlot(this.#client, [...items.keys()], (key) => items.get(key)!.fullKey).map(async (group) => {
+				try {
+					await this.#execute('set', async (client) => {
+						const pipeline = 'masters' in client ? client.multi(items.get(group[0])!.fullKey) : client.multi();
+						for (const key of group) {
+							const { fullKey, val, seconds } = items.get(key)!;
+							if (seconds === undefined) {
+								pipeline.set(fullKey, val);
+							} else {
+								pipeline.setEx(fullKey, seconds, val);
+							}
+						}
+						await pipeline.execAsPipeline();
+
+						await Promise.all(
+							group.map((key) => {
+								const { fullKey, tags, seconds } = items.get(key)!;
+
+								return this.#indexTags(client, fullKey, tags, seconds !== undefined ? seconds * 1000 : undefined);
+							}),
+						);
+					});
+				} catch (err) {
+					this.metrics.recordError('set');
+					if (!(err instanceof CircuitOpenError)) {
+						logger.error({ keys: group, err }, 'Got error while trying to set cache keys');
+					}
+				}
+			}),
+		);
+	}
+
+	/**
+	 * Add a key to the indexes of entries carrying its tags.
+	 *
+	 * @param client Redis client or cluster.
+	 * @param fullKey Key, including prefix.
+	 * @param tags Tags.
+	 * @param px Time-to-live of the entry, expressed as number of milliseconds.
+	 */
+	async #indexTags(
+		client: RedisClientOrCluster,
+		fullKey: string,
+		tags: readonly string[] | undefined,
+		px: number | undefined,
+	): Promise<void> {
+		await Promise.all(
+			(tags ?? []).map((tag) =>
+				client.eval(INDEX_TAG_SCRIPT, {
+					keys: [addPrefix(this.#options.keyPrefix, this.tagKey(tag))],
+					arguments: [fullKey, px !== undefined ? `${px}` : ''],
+				}),
+			),
+		);
+	}
+
+	/**
+	 * Group keys so that each group can be sent with a single multi-key command. When not in cluster mode,
+	 * all keys belong to the same group.
+	 *
+	 * @param client Redis client or cluster.
+	 * @param items Items to group.
+	 * @param fullKeyOf Function returning the full key of an item, including prefix.
+	 */
+	#groupBySlot<T>(client: RedisClientOrCluster, items: readonly T[], fullKeyOf: (item: T) => string): T[][] {
+		if (items.length === 0) {
+			return [];
+		}
+		if (!('masters' in client)) {
+			return [[...items]];
 		}
+
+		const groups = new Map<number, T[]>();
+		for (const item of items) {
+			const slot = hashSlot(fullKeyOf(item));
+			groups.set(slot, [...(groups.get(slot) ?? []), item]);
+		}
+
+		return [...groups.values()];
+	}
+
+	public async ttl(key: string): Promise<number | undefined> {
+		const px = await this.#execute(
+			'get',
+			(client) => client.pTTL(addPrefix(this.#options.keyPrefix, key)),
+			() => -2,
+		);
+
+		return px === -2 ? undefined : px === -1 ? Infinity : px / 1000;
+	}
+
+	public async touch(
+		key: string,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<boolean> {
+		ttl ??= this.#options.defaultTTL;
+		const px =
+			ttl !== undefined
+				? Math.round(createJitter(jitter ?? this.#options.defaultJitter ?? JitterMode.None)(ttl * 1000))
+				: undefined;
+		const fullKey = addPrefix(this.#options.keyPrefix, key);
+
+		return this.#execute(
+			'set',
+			async (client) => {
+				const val = await client.get(commandOptions({ returnBuffers: true }), fullKey);
+				if (val === null) {
+					return false;
+				}
+
+				// Tag indexes must not expire before the entry. In cluster mode, only indexes living in the same hash slot
+				// as the entry can be updated by the same script, others are updated right after.
+				let tags: readonly string[] = [];
+				try {
+					tags = unframeEntry(val).meta.tags ?? [];
+				} catch {
+					// Tags of malformed entries cannot be known.
+				}
+				const tagKeys = tags.map((tag) => addPrefix(this.#options.keyPrefix, this.tagKey(tag)));
+				const sameSlot =
+					'masters' in client ? tagKeys.filter((tagKey) => hashSlot(tagKey) === hashSlot(fullKey)) : tagKeys;
+
+				const res = await client.eval(TOUCH_SCRIPT, {
+					keys: [fullKey, ...sameSlot],
+					arguments: [px !== undefined ? `${px}` : ''],
+				});
+				if (res !== 1) {
+					return false;
+				}
+
+				await this.#indexTags(
+					client,
+					fullKey,
+					tags.filter((_, idx) => !sameSlot.includes(tagKeys[idx]!)),
+					px,
+				);
+
+				return true;
+			},
+			() => false,
+		);
 	}
 
+	public async increment(
+		key: string,
+		delta = 1,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<number> {
+		ttl ??= this.#options.defaultTTL;
+		const px =
+			ttl !== undefined
+				? Math.round(createJitter(jitter ?? this.#options.defaultJitter ?? JitterMode.None)(ttl * 1000))
+				: undefined;
+		const res = await this.#execute('set', (client) =>
+			client.eval(INCREMENT_SCRIPT, {
+				keys: [addPrefix(this.#options.keyPrefix, key)],
+				arguments: [`${delta}`, px !== undefined ? `${px}` : ''],
+			}),
+		);
+
+		return Number(res);
+	}
+
+	@BaseCache.metered('delete')
 	public async delete(key: string): Promise<void> {
-		const client = await this.#connect();
+		await this.#execute(
+			'delete',
+			(client) => client.del(addPrefix(this.#options.keyPrefix, key)),
+			() => 0,
+		);
+	}
 
-		await client.del(addPrefix(this.#options.keyPrefix, key));
+	@BaseCache.metered('delete')
+	public async deleteMany(keys: readonly string[]): Promise<void> {
+		await this.#execute(
+			'delete',
+			(client) =>
+				this.#del(
+					client,
+					keys.map((key) => addPrefix(this.#options.keyPrefix, key)),
+				),
+			() => undefined,
+		);
 	}
 
 	public async *keys(prefix?: string): AsyncGenerator<string, void, undefined> {
 		const matchFilter = addPrefix(this.#options.keyPrefix, `${prefix ?? ''}*`);
-		const client = await this.#connect();
+		const client = await this.#execute(
+			'get',
+			async (client) => client,
+			() => undefined,
+		);
+		if (client === undefined) {
+			return;
+		}
+
 		const clients = 'masters' in client ? client.masters.map(({ client }) => client!) : [client];
-		for (const clientPromise of clients) {
-			const client = await clientPromise;
+		try {
+			for (const clientPromise of clients) {
+				const client = await clientPromise;
 
-			for await (const key of client.scanIterator({ MATCH: matchFilter })) {
-				yield stripPrefix(this.#options.keyPrefix, key)!;
+				for await (const fullKey of client.scanIterator({ MATCH: matchFilter })) {
+					const key = stripPrefix(this.#options.keyPrefix, fullKey)!;
+					if (!this.isInternalKey(key)) {
+						yield key;
+					}
+				}
 			}
+		} catch (err) {
+			if (this.#breaker === undefined) {
+				throw err;
+			}
+
+			this.metrics.recordError('get');
+			logger.error({ err, prefix }, 'Got error while listing cache keys, failing open');
 		}
 	}
 
@@ -155,15 +661,171 @@ export class RedisCache<V> extends BaseCache<V | Jsonify<V>> {
 			do {
 				const res = await client.scan(cursor, { MATCH: addPrefix(this.#options.keyPrefix, pattern) });
 				cursor = res.cursor;
-				if (res.keys.length > 0) {
-					await client.del(res.keys);
+				const keys = res.keys.filter((key) => !this.isInternalKey(stripPrefix(this.#options.keyPrefix, key)!));
+				if (keys.length > 0) {
+					await client.del(keys);
 				}
 			} while (cursor !== 0);
 		};
 
-		const client = await this.#connect();
-		await Promise.all(
-			'masters' in client ? client.masters.map(async ({ client }) => scanNode(await client!)) : [scanNode(client)],
+		await this.#execute(
+			'delete',
+			(client) =>
+				Promise.all(
+					'masters' in client ? client.masters.map(async ({ client }) => scanNode(await client!)) : [scanNode(client)],
+				),
+			() => [],
 		);
 	}
+
+	public async clearTags(...tags: string[]): Promise<void> {
+		const tagKeys = tags.map((tag) => addPrefix(this.#options.keyPrefix, this.tagKey(tag)));
+		await this.#execute(
+			'delete',
+			async (client) => {
+				const keys = (await Promise.all(tagKeys.map((tagKey) => client.sMembers(tagKey)))).flat();
+
+				await this.#del(client, [...keys, ...tagKeys]);
+			},
+			() => undefined,
+		);
+	}
+
+	/**
+	 * Delete keys. In cluster mode, keys are grouped by hash slot.
+	 *
+	 * @param client Redis client or cluster.
+	 * @param fullKeys Keys to delete, including prefix.
+	 */
+	async #del(client: RedisClientOrCluster, fullKeys: string[]): Promise<void> {
+		await Promise.all(this.#groupBySlot(client, fullKeys, (fullKey) => fullKey).map((group) => client.del(group)));
+	}
+
+	/**
+	 * @throws {CircuitOpenError} If the circuit is open: failing open here would be mistaken for a lock held by someone else.
+	 */
+	public async acquireLock(key: string, token: string, ttl: number): Promise<boolean> {
+		const res = await this.#execute('set', (client) =>
+			client.set(addPrefix(this.#options.keyPrefix, key), token, {
+				NX: true,
+				PX: Math.round(ttl * 1000),
+			}),
+		);
+
+		return res !== null;
+	}
+
+	public async releaseLock(key: string, token: string): Promise<boolean> {
+		const res = await this.#execute(
+			'delete',
+			(client) =>
+				client.eval(RELEASE_LOCK_SCRIPT, {
+					keys: [addPrefix(this.#options.keyPrefix, key)],
+					arguments: [token],
+				}),
+			() => 0,
+		);
+
+		return res === 1;
+	}
+
+	public async extendLock(key: string, token: string, ttl: number): Promise<boolean> {
+		const res = await this.#execute(
+			'set',
+			(client) =>
+				client.eval(EXTEND_LOCK_SCRIPT, {
+					keys: [addPrefix(this.#options.keyPrefix, key)],
+					arguments: [token, `${Math.round(ttl * 1000)}`],
+				}),
+			() => 0,
+		);
+
+		return res === 1;
+	}
+}
+
+type RedisInvalidationTransportOptions = {
+	/** Pub/sub channel. Defaults to `cache:invalidation`. */
+	channel?: string;
+};
+
+/** Transport of cache invalidations between replicas over Redis pub/sub. */
+export class RedisInvalidationTransport implements InvalidationTransport {
+	readonly #channel: string;
+	readonly #publisher: RedisClientOrCluster;
+	readonly #subscriber: RedisClientOrCluster;
+	#connectPromise?: Promise<unknown>;
+
+	public static init(
+		redisOptions: RedisClientOrClusterOptions,
+		options: RedisInvalidationTransportOptions = {},
+	): RedisInvalidationTransport {
+		const client = 'rootNodes' in redisOptions ? createCluster(redisOptions) : createClient(redisOptions);
+
+		return new this(options, client);
+	}
+
+	private constructor(options: RedisInvalidationTransportOptions, client: RedisClientOrCluster) {
+		this.#channel = options.channel ?? 'cache:invalidation';
+		this.#publisher = client;
+		// Clients in subscriber mode cannot issue other commands.
+		this.#subscriber = client.duplicate();
+
+		for (const c of [this.#publisher, this.#subscriber]) {
+			c.on('error', (err: Error) => logger.error({ err, channel: this.#channel }, 'Redis error')).on('end', () => {
+				// Connection has been closed for good: next operation will connect again.
+				this.#connectPromise = undefined;
+			});
+		}
+	}
+
+	async #connect(): Promise<void> {
+		if (this.#connectPromise === undefined) {
+			// Either connection may still be open after the other one failed or ended.
+			this.#connectPromise = Promise.all(
+				[this.#publisher, this.#subscriber].filter((c) => !c.isOpen).map((c) => c.connect()),
+			).catch((err) => {
+				this.#connectPromise = undefined;
+				throw err;
+			});
+		}
+
+		await this.#connectPromise;
+	}
+
+	public async publish(message: InvalidationMessage): Promise<void> {
+		await this.#connect();
+
+		await this.#publisher.publish(this.#channel, JSON.stringify(message));
+	}
+
+	public async subscribe(listener: InvalidationListener): Promise<() => Promise<void>> {
+		await this.#connect();
+
+		const onMessage = (raw: string) => {
+			let message: InvalidationMessage;
+			try {
+				message = JSON.parse(raw);
+			} catch {
+				logger.warn({ channel: this.#channel }, 'Malformed JSON data');
+
+				return;
+			}
+
+			listener(message);
+		};
+		await this.#subscriber.subscribe(this.#channel, onMessage);
+
+		return async () => {
+			await this.#subscriber.unsubscribe(this.#channel, onMessage);
+		};
+	}
+
+	/**
+	 * Close connections to Redis.
+	 */
+	public async close(): Promise<void> {
+		await Promise.all([this.#publisher.quit(), this.#subscriber.quit()]);
+		this.#connectPromise = undefined;
+	}
 }
@@ -1,23 +1,43 @@
-import { BaseCache } from './base';
+import { BaseCache, UnsupportedOperationError, type CacheEntry } from './base';
 import {
+	CopyObjectCommand,
 	DeleteObjectCommand,
 	DeleteObjectsCommand,
 	GetObjectCommand,
+	HeadObjectCommand,
 	ListObjectsV2Command,
+	NoSuchKey,
 	PutObjectCommand,
 	S3,
+	S3ServiceException,
+	type HeadObjectCommandOutput,
 	type S3ClientConfig,
 } from '@aws-sdk/client-s3';
 import { logger } from '../../logger.js';
+import { asyncIterableToArray } from '../../utils/collections.js';
 import { createJitter, JitterMode, type JitterFn } from '../../utils/misc.js';
+import { asyncIterablePool } from '../../utils/promises.js';
+import { CacheMetrics } from './metrics.js';
+import { CodecError, resolveCodec, type Codec, type CodecName, type Decoded } from './codecs.js';
 
-type S3CacheOptions = {
+type S3CacheOptions<C extends CodecName | Codec = 'binary'> = {
 	bucket: string;
 	keyPrefix?: string;
 	defaultTTL?: number;
 	defaultJitter?: JitterMode | JitterFn;
+	/** Maximum number of simultaneous requests issued by bulk operations. Defaults to 10. */
+	concurrency?: number;
+	/** Codec used to serialize values. Defaults to `'binary'`, which stores values as they are. */
+	codec?: C;
 };
 
+/** Codecs able to encode values of type `V`: raw codecs store values as they are, so they only accept bytes or strings. */
+type CodecFor<V> =
+	| Exclude<CodecName, 'binary' | 'text'>
+	| Codec
+	| (V extends Uint8Array ? 'binary' : never)
+	| (V extends string ? 'text' : never);
+
 function joinParts(...prefixes: string[]): string {
 	return prefixes
 		.filter((p) => p && p.length > 0)
@@ -25,24 +45,66 @@ function joinParts(...prefixes: string[]): string {
 		.join('/');
 }
 
-export class S3Cache<V extends Uint8Array = Uint8Array> extends BaseCache<V> {
-	readonly #options: S3CacheOptions;
+/**
+ * Parse a timestamp stored in object metadata.
+ *
+ * @param value Metadata value.
+ */
+const parseTimestamp = (value: string | undefined): number | undefined => {
+	const timestamp = Number.parseInt(value ?? '', 10);
+
+	return Number.isNaN(timestamp) ? undefined : timestamp;
+};
+
+/**
+ * Check if an error was caused by a failed conditional request.
+ *
+ * @param err Error.
+ */
+const isConditionalRequestFailure = (err: unknown): boolean =>
+	err instanceof S3ServiceException && [409, 412].includes(err.$metadata.httpStatusCode ?? 0);
+
+/**
+ * Check if an error was caused by a missing object.
+ *
+ * @param err Error.
+ */
+const isNotFound = (err: unknown): boolean =>
+	err instanceof NoSuchKey || (err instanceof S3ServiceException && err.$metadata.httpStatusCode === 404);
+
+/**
+ * Cache storing entries as S3 objects. Values are stored as they are by default, thus they must be bytes
+ * unless a codec is set.
+ */
+export class S3Cache<V = Uint8Array, C extends CodecFor<V> = Extract<CodecFor<V>, 'binary'>> extends BaseCache<
+	V | Decoded<V, C>
+> {
+	readonly #options: S3CacheOptions<C>;
 	readonly #client: S3;
+	readonly #codec: Codec;
+	protected readonly metrics: CacheMetrics;
 
 	public static init<V extends Uint8Array = Uint8Array>(
 		s3Options: S3ClientConfig,
-		options: S3CacheOptions,
-	): S3Cache<V> {
+		options: S3CacheOptions<'binary'>,
+	): S3Cache<V>;
+	public static init<V, C extends CodecFor<V>>(
+		s3Options: S3ClientConfig,
+		options: S3CacheOptions<C> & { codec: C },
+	): S3Cache<V, C>;
+	public static init<V, C extends CodecFor<V>>(s3Options: S3ClientConfig, options: S3CacheOptions<C>): S3Cache<V, C> {
 		const client = new S3(s3Options);
 
 		return new this(options, client);
 	}
 
-	private constructor(options: S3CacheOptions, client: S3) {
+	private constructor(options: S3CacheOptions<C>, client: S3) {
 		super();
 
 		this.#options = options;
 		this.#client = client;
+		this.#codec = resolveCodec(options.codec ?? 'binary');
+		this.metrics = new CacheMetrics('s3', options.keyPrefix);
 	}
 
 	#buildKey(key: string): string {
@@ -51,9 +113,9 @@ export class S3Cache<V extends Uint8Array = Uint8Array> extends BaseCache<V> {
 
 	public child<V2 extends V>(
 		keyPrefix: string,
-		options?: Partial<Omit<S3CacheOptions, 'bucket' | 'keyPrefix'>>,
-	): S3Cache<V2> {
-		return new S3Cache<V2>(
+		options?: Partial<Omit<S3CacheOptions<C>, 'bucket' | 'keyPrefix'>>,
+	): S3Cache<V2, C> {
+		return new S3Cache<V2, C>(
 			{
 				...this.#options,
 				...options,
@@ -63,7 +125,14 @@ export class S3Cache<V extends Uint8Array = Uint8Array> extends BaseCache<V> {
 		);
 	}
 
-	public async get(key: string): Promise<V | undefined> {
+	public async get(key: string): Promise<Decoded<V, C> | undefined> {
+		const entry = await this.getEntry(key);
+
+		return entry?.tombstone ? undefined : entry?.value;
+	}
+
+	@BaseCache.metered('get')
+	public async getEntry(key: string): Promise<CacheEntry<Decoded<V, C>> | undefined> {
 		const s3Key = this.#buildKey(key);
 		try {
 			const res = await this.#client.send(
@@ -81,44 +150,241 @@ export class S3Cache<V extends Uint8Array = Uint8Array> extends BaseCache<V> {
 				return undefined;
 			}
 
+			const meta = {
+				storedAt: parseTimestamp(res.Metadata?.['stored-at']),
+				staleAt: parseTimestamp(res.Metadata?.['stale-at']),
+				tags: res.Metadata?.['tags']?.split(',').map(decodeURIComponent),
+			};
+			if (res.Metadata?.['tombstone'] === '1') {
+				return { ...meta, tombstone: true };
+			}
+
 			if (!res.Body) {
 				return undefined;
 			}
-			return res.Body.transformToByteArray() as Promise<V>;
-		} catch {
+
+			const data = await res.Body.transformToByteArray();
+			this.metrics.recordSize('get', data.byteLength);
+			let value: Decoded<V, C>;
+			try {
+				value = this.#codec.decode(data, s3Key) as Decoded<V, C>;
+			} catch (err) {
+				if (!(err instanceof CodecError)) {
+					throw err;
+				}
+
+				this.metrics.recordError('get');
+				logger.warn(`Malformed ${this.#codec.name} data`);
+				logger.debug({ key, err }, `Could not parse ${this.#codec.name} data stored in S3 cache`);
+
+				return undefined;
+			}
+
+			return { ...meta, value };
+		} catch (err) {
+			if (!(err instanceof NoSuchKey)) {
+				this.metrics.recordError('get');
+			}
+
 			return undefined;
 		}
 	}
 
-	public async set(
+	// Bulk reads and writes are not metered, since they are built upon reads and writes of single keys.
+	public async getEntries(keys: readonly string[]): Promise<Map<string, CacheEntry<Decoded<V, C>>>> {
+		const entries = new Map<string, CacheEntry<Decoded<V, C>>>();
+		const jobs = keys.map((key) => async () => {
+			const entry = await this.getEntry(key);
+			if (entry !== undefined) {
+				entries.set(key, entry);
+			}
+		});
+		await asyncIterableToArray(asyncIterablePool(jobs, this.#options.concurrency ?? 10));
+
+		return new Map(keys.filter((key) => entries.has(key)).map((key) => [key, entries.get(key)!]));
+	}
+
+	@BaseCache.metered('set')
+	public async setEntry(
 		key: string,
-		value: V,
+		entry: CacheEntry<V | Decoded<V, C>>,
 		ttl?: number | undefined,
 		jitter?: JitterMode | JitterFn | undefined,
 	): Promise<void> {
 		const s3Key = this.#buildKey(key);
+		const body = entry.tombstone ? '' : this.#codec.encode(entry.value, s3Key);
+		this.metrics.recordSize('set', typeof body === 'string' ? Buffer.byteLength(body) : body.byteLength);
 
 		try {
-			let expiresAt: number | undefined;
-			ttl = ttl ?? this.#options.defaultTTL;
-			if (ttl !== undefined) {
-				const jitterFn = createJitter(jitter ?? this.#options.defaultJitter ?? JitterMode.None);
-				expiresAt = Date.now() + Math.round(jitterFn(ttl));
+			const expiresAt = this.#expiresAt(ttl, jitter);
+			const metadata: Record<string, string> = {};
+			for (const [name, timestamp] of [
+				['expires-at', expiresAt],
+				['stored-at', entry.storedAt],
+				['stale-at', entry.staleAt],
+			] as const) {
+				if (timestamp !== undefined) {
+					metadata[name] = `${timestamp}`;
+				}
+			}
+			if (entry.tags?.length) {
+				metadata['tags'] = entry.tags.map(encodeURIComponent).join(',');
+			}
+			if (entry.tombstone) {
+				metadata['tombstone'] = '1';
 			}
 
 			await this.#client.send(
 				new PutObjectCommand({
 					Bucket: this.#options.bucket,
 					Key: s3Key,
-					Body: value,
-					Metadata: expiresAt ? { 'expires-at': `${expiresAt}` } : {},
+					Body: body,
+					ContentType: this.#codec.contentType,
+					ContentEncoding: this.#codec.contentEncoding,
+					Metadata: metadata,
 				}),
 			);
+
+			// Index objects are named after the tag and the key, so that no read-modify-write is needed.
+			await Promise.all(
+				(entry.tags ?? []).map((tag) =>
+					this.#client.send(
+						new PutObjectCommand({
+							Bucket: this.#options.bucket,
+							Key: joinParts(this.#buildTagKey(tag), encodeURIComponent(key)),
+							Body: '',
+							Metadata: expiresAt !== undefined ? { 'expires-at': `${expiresAt}` } : {},
+						}),
+					),
+				),
+			);
 		} catch (err) {
+			this.metrics.recordError('set');
 			logger.error({ key, err }, 'Got error while trying to set cache key');
 		}
 	}
 
+	public async setEntries(
+		entries: Iterable<readonly [string, CacheEntry<V | Decoded<V, C>>]>,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<void> {
+		const jobs = [...entries].map(
+			([key, entry]) =>
+				() =>
+					this.setEntry(key, entry, ttl, jitter),
+		);
+		await asyncIterableToArray(asyncIterablePool(jobs, this.#options.concurrency ?? 10));
+	}
+
+	public async ttl(key: string): Promise<number | undefined> {
+		const head = await this.#head(this.#buildKey(key));
+		if (head === undefined) {
+			return undefined;
+		}
+
+		const expiresAt = parseTimestamp(head.Metadata?.['expires-at']);
+
+		return expiresAt !== undefined ? Math.max(expiresAt - Date.now(), 0) / 1000 : Infinity;
+	}
+
+	public async touch(
+		key: string,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<boolean> {
+		const s3Key = this.#buildKey(key);
+		const head = await this.#head(s3Key);
+		if (head === undefined) {
+			return false;
+		}
+
+		const { 'expires-at': _, ...metadata } = head.Metadata ?? {};
+		const expiresAt = this.#expiresAt(ttl, jitter);
+		if (expiresAt !== undefined) {
+			metadata['expires-at'] = `${expiresAt}`;
+		}
+
+		try {
+			// Objects are immutable: metadata is replaced by copying the object onto itself.
+			await this.#client.send(
+				new CopyObjectCommand({
+					Bucket: this.#options.bucket,
+					Key: s3Key,
+					CopySource: `${this.#options.bucket}/${s3Key.split('/').map(encodeURIComponent).join('/')}`,
+					CopySourceIfMatch: head.ETag,
+					MetadataDirective: 'REPLACE',
+					ContentType: head.ContentType,
+					ContentEncoding: head.ContentEncoding,
+					Metadata: metadata,
+				}),
+			);
+		} catch (err) {
+			if (!isConditionalRequestFailure(err) && !isNotFound(err)) {
+				throw err;
+			}
+
+			// Object has been overwritten or deleted in the meantime.
+			return false;
+		}
+
+		await Promise.all(
+			(metadata['tags']?.split(',').map(decodeURIComponent) ?? []).map((tag) =>
+				this.#client.send(
+					new PutObjectCommand({
+						Bucket: this.#options.bucket,
+						Key: joinParts(this.#buildTagKey(tag), encodeURIComponent(key)),
+						Body: '',
+						Metadata: expiresAt !== undefined ? { 'expires-at': `${expiresAt}` } : {},
+					}),
+				),
+			),
+		);
+
+		return true;
+	}
+
+	/**
+	 * Read metadata of an object that has not expired yet.
+	 *
+	 * @param s3Key Full S3 key of the object.
+	 */
+	async #head(s3Key: string): Promise<HeadObjectCommandOutput | undefined> {
+		try {
+			const head = await this.#client.send(new HeadObjectCommand({ Bucket: this.#options.bucket, Key: s3Key }));
+			const expiresAt = parseTimestamp(head.Metadata?.['expires-at']);
+
+			return expiresAt === undefined || Date.now() <= expiresAt ? head : undefined;
+		} catch (err) {
+			if (!isNotFound(err)) {
+				throw err;
+			}
+
+			return undefined;
+		}
+	}
+
+	/**
+	 * Compute expiration timestamp of an entry, applying defaults and jitter.
+	 *
+	 * @param ttl Time-to-live, expressed as number of seconds from current time.
+	 * @param jitter Jitter to apply to TTL.
+	 */
+	#expiresAt(ttl: number | undefined, jitter: JitterMode | JitterFn | undefined): number | undefined {
+		ttl ??= this.#options.defaultTTL;
+		if (ttl === undefined) {
+			return undefined;
+		}
+
+		return Date.now() + Math.round(createJitter(jitter ?? this.#options.defaultJitter ?? JitterMode.None)(ttl * 1000));
+	}
+
+	public async increment(_key: string): Promise<number> {
+		// Objects cannot be updated atomically.
+		throw new UnsupportedOperationError('increment', S3Cache.name);
+	}
+
+	@BaseCache.metered('delete')
 	public async delete(key: string): Promise<void> {
 		await this.#client.send(
 			new DeleteObjectCommand({
@@ -128,8 +394,15 @@ export class S3Cache<V extends Uint8Array = Uint8Array> extends BaseCache<V> {
 		);
 	}
 
+	@BaseCache.metered('delete')
+	public async deleteMany(keys: readonly string[]): Promise<void> {
+		await this.#deleteObjects(keys.map((key) => this.#buildKey(key)));
+	}
+
 	public async *keys(prefix?: string): AsyncIterableIterator<string> {
-		const fullPrefix = this.#buildKey(prefix ?? '');
+		// Keys are listed relative to the key prefix, including the separator that joins them.
+		const basePrefix = this.#buildKey('') && `${this.#buildKey('')}/`;
+		const fullPrefix = basePrefix + (prefix ?? '');
 		let cont: string | undefined;
 		do {
 			const res = await this.#client.send(
@@ -140,8 +413,9 @@ export class S3Cache<V extends Uint8Array = Uint8Array> extends BaseCache<V> {
 				}),
 			);
 			for (const obj of res.Contents ?? []) {
-				if (obj.Key) {
-					yield obj.Key.slice((this.#options.keyPrefix ?? '').length);
+				const key = obj.Key?.slice(basePrefix.length);
+				if (key && !this.isInternalKey(key)) {
+					yield key;
 				}
 			}
 			cont = res.NextContinuationToken;
@@ -153,15 +427,8 @@ export class S3Cache<V extends Uint8Array = Uint8Array> extends BaseCache<V> {
 		for await (const k of this.keys(prefix)) {
 			toDel.push(this.#buildKey(k));
 		}
-		while (toDel.length) {
-			const chunk = toDel.splice(0, 1000);
-			await this.#client.send(
-				new DeleteObjectsCommand({
-					Bucket: this.#options.bucket,
-					Delete: { Objects: chunk.map((Key) => ({ Key })) },
-				}),
-			);
-		}
+
+		await this.#deleteObjects(toDel);
 	}
 
 	public async clearPattern(pattern: string): Promise<void> {
@@ -173,14 +440,171 @@ export class S3Cache<V extends Uint8Array = Uint8Array> extends BaseCache<V> {
 				toDel.push(this.#buildKey(k));
 			}
 		}
-		while (toDel.length) {
-			const chunk = toDel.splice(0, 1000);
+
+		await this.#deleteObjects(toDel);
+	}
+
+	public async clearTags(...tags: string[]): Promise<void> {
+		const toDel: string[] = [];
+		for (const tag of tags) {
+			const tagPrefix = this.#buildTagKey(tag) + '/';
+			let cont: string | undefined;
+			do {
+				const res = await this.#client.send(
+					new ListObjectsV2Command({
+						Bucket: this.#options.bucket,
+						Prefix: tagPrefix,
+						ContinuationToken: cont,
+					}),
+				);
+				for (const obj of res.Contents ?? []) {
+					if (obj.Key) {
+						toDel.push(obj.Key, this.#buildKey(decodeURIComponent(obj.Key.slice(tagPrefix.length))));
+					}
+				}
+				cont = res.NextContinuationToken;
+			} while (cont);
+		}
+
+		await this.#deleteObjects(toDel);
+	}
+
+	/**
+	 * Build the key prefix of index objects of entries carrying a tag.
+	 *
+	 * @param tag Tag.
+	 */
+	#buildTagKey(tag: string): string {
+		return this.#buildKey(this.tagKey(encodeURIComponent(tag)));
+	}
+
+	/**
+	 * Delete objects in batches.
+	 *
+	 * @param s3Keys Full S3 keys of objects to delete.
+	 */
+	async #deleteObjects(s3Keys: string[]): Promise<void> {
+		for (let i = 0; i < s3Keys.length; i += 1000) {
 			await this.#client.send(
 				new DeleteObjectsCommand({
 					Bucket: this.#options.bucket,
-					Delete: { Objects: chunk.map((Key) => ({ Key })) },
+					Delete: { Objects: s3Keys.slice(i, i + 1000).map((Key) => ({ Key })) },
+				}),
+			);
+		}
+	}
+
+	public async acquireLock(key: string, token: string, ttl: number): Promise<boolean> {
+		const s3Key = this.#buildKey(key);
+		const put = () =>
+			this.#client.send(
+				new PutObjectCommand({
+					Bucket: this.#options.bucket,
+					Key: s3Key,
+					Body: token,
+					IfNoneMatch: '*',
+					Metadata: { 'expires-at': `${Date.now() + Math.round(ttl * 1000)}` },
+				}),
+			);
+
+		try {
+			await put();
+
+			return true;
+		} catch (err) {
+			if (!isConditionalRequestFailure(err)) {
+				throw err;
+			}
+		}
+
+		// Lock object is already present: take over if it has expired.
+		const current = await this.#readLock(s3Key);
+		if (current === undefined || Date.now() <= current.expiresAt) {
+			return false;
+		}
+
+		try {
+			await this.#client.send(
+				new DeleteObjectCommand({ Bucket: this.#options.bucket, Key: s3Key, IfMatch: current.etag }),
+			);
+			await put();
+
+			return true;
+		} catch (err) {
+			if (!isConditionalRequestFailure(err)) {
+				throw err;
+			}
+
+			return false;
+		}
+	}
+
+	public async releaseLock(key: string, token: string): Promise<boolean> {
+		const s3Key = this.#buildKey(key);
+		const current = await this.#readLock(s3Key);
+		if (current?.token !== token) {
+			return false;
+		}
+
+		try {
+			await this.#client.send(
+				new DeleteObjectCommand({ Bucket: this.#options.bucket, Key: s3Key, IfMatch: current.etag }),
+			);
+
+			return true;
+		} catch (err) {
+			if (!isConditionalRequestFailure(err)) {
+				throw err;
+			}
+
+			return false;
+		}
+	}
+
+	public async extendLock(key: string, token: string, ttl: number): Promise<boolean> {
+		const s3Key = this.#buildKey(key);
+		const current = await this.#readLock(s3Key);
+		if (current?.token !== token || Date.now() > current.expiresAt) {
+			return false;
+		}
+
+		try {
+			await this.#client.send(
+				new PutObjectCommand({
+					Bucket: this.#options.bucket,
+					Key: s3Key,
+					Body: token,
+					IfMatch: current.etag,
+					Metadata: { 'expires-at': `${Date.now() + Math.round(ttl * 1000)}` },
 				}),
 			);
+
+			return true;
+		} catch (err) {
+			if (!isConditionalRequestFailure(err)) {
+				throw err;
+			}
+
+			return false;
+		}
+	}
+
+	/**
+	 * Read owner token, expiration and ETag of a lock object.
+	 *
+	 * @param s3Key Full S3 key of the lock object.
+	 */
+	async #readLock(s3Key: string): Promise<{ token: string; expiresAt: number; etag?: string } | undefined> {
+		try {
+			const res = await this.#client.send(new GetObjectCommand({ Bucket: this.#options.bucket, Key: s3Key }));
+
+			return {
+				token: (await res.Body?.transformToString()) ?? '',
+				expiresAt: parseTimestamp(res.Metadata?.['expires-at']) ?? Infinity,
+				etag: res.ETag,
+			};
+		} catch {
+			return undefined;
 		}
 	}
 }
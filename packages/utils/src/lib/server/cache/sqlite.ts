@@ -0,0 +1,562 @@
+import type { DatabaseSync, StatementSync } from 'node:sqlite';
+import { logger } from '../../logger.js';
+import { createJitter, JitterMode, type JitterFn } from '../../utils/misc.js';
+import { addPrefix, stripPrefix } from '../../utils/string.js';
+import { BaseCache, type CacheEntry } from './base.js';
+import { CodecError, resolveCodec, type Codec, type CodecName, type Decoded } from './codecs.js';
+import { CacheMetrics } from './metrics.js';
+
+type SqliteCacheOptions<C extends CodecName | Codec = 'json'> = {
+	/** Path of the database file, or `:memory:` for a database that lives as long as the cache. */
+	path: string;
+	/** Name of the table where entries are stored. Defaults to `'cache'`. */
+	table?: string;
+	keyPrefix?: string;
+	defaultTTL?: number;
+	defaultJitter?: JitterMode | JitterFn;
+	/** Codec used to serialize values. Defaults to `'json'`. */
+	codec?: C;
+	/** Interval between purges of expired entries, expressed as number of seconds. Defaults to 60 seconds, use `0` to disable. */
+	purgeInterval?: number;
+};
+
+/** Options that can only be set on the root cache, since they concern the database shared with children. */
+type DatabaseOptions = 'path' | 'table' | 'purgeInterval';
+
+/** Database connection shared by a cache and its children. */
+type SharedDatabase = {
+	/** Database connection, opened on first use. */
+	db?: Promise<DatabaseSync>;
+	/** Prepared statements, by SQL. */
+	statements: Map<string, StatementSync>;
+	/** Timer purging expired entries. */
+	timer?: NodeJS.Timeout;
+};
+
+/** Row of the entries table. */
+type EntryRow = {
+	key: string;
+	value: Uint8Array | null;
+	stored_at: number | null;
+	stale_at: number | null;
+	tags: string | null;
+	tombstone: number;
+};
+
+/** Maximum number of bound parameters used by a single statement. */
+const MAX_PARAMS = 500;
+
+/**
+ * Escape characters that have a special meaning in GLOB patterns.
+ *
+ * @param value String to escape.
+ * @param chars Characters to escape.
+ */
+const escapeGlob = (value: string, chars = /[*?[]/g): string => value.replace(chars, '[$&]');
+
+/**
+ * Split a list into chunks.
+ *
+ * @param items List.
+ * @param size Maximum chunk size.
+ */
+const chunks = <T>(items: readonly T[], size: number): T[][] =>
+	Array.from({ length: Math.ceil(items.length / size) }, (_, idx) => items.slice(idx * size, (idx + 1) * size));
+
+/**
+ * Cache storing entries in a SQLite database, either a local file or an in-memory database.
+ * Requires `node:sqlite`, available since Node.js 22.5.
+ *
+ * Expired entries are hidden from reads, and periodically purged. Writes are atomic, and so are locks and counters
+ * as long as every process accessing the database file runs on the same node.
+ */
+export class SqliteCache<V, C extends CodecName | Codec = 'json'> extends BaseCache<V | Decoded<V, C>> {
+	readonly #options: SqliteCacheOptions<C>;
+	readonly #shared: SharedDatabase;
+	readonly #codec: Codec;
+	readonly #table: string;
+	readonly #tagsTable: string;
+	protected readonly metrics: CacheMetrics;
+
+	public static init<V, C extends CodecName | Codec = 'json'>(options: SqliteCacheOptions<C>): SqliteCache<V, C> {
+		const table = options.table ?? 'cache';
+		if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+			throw new TypeError(`Invalid table name: ${table}`);
+		}
+
+		return new this({ ...options, table }, { statements: new Map() });
+	}
+
+	private constructor(options: SqliteCacheOptions<C>, shared: SharedDatabase) {
+		super();
+
+		this.#options = Object.freeze({ ...options });
+		this.#shared = shared;
+		this.#codec = resolveCodec(options.codec ?? 'json');
+		this.#table = `"${options.table}"`;
+		this.#tagsTable = `"${options.table}_tags"`;
+		this.metrics = new CacheMetrics('sqlite', options.keyPrefix);
+	}
+
+	public child<V2 extends V>(
+		keyPrefix: string,
+		options?: Partial<Omit<SqliteCacheOptions<C>, 'keyPrefix' | DatabaseOptions>>,
+	): SqliteCache<V2, C> {
+		return new SqliteCache<V2, C>(
+			{ ...this.#options, ...options, keyPrefix: addPrefix(this.#options.keyPrefix, keyPrefix) },
+			this.#shared,
+		);
+	}
+
+	/**
+	 * Open the database, creating tables if needed and scheduling purges of expired entries.
+	 */
+	async #open(): Promise<DatabaseSync> {
+		if (this.#shared.db === undefined) {
+			this.#shared.db = import('node:sqlite')
+				.then(({ DatabaseSync }) => {
+					const db = new DatabaseSync(this.#options.path);
+					db.exec(`PRAGMA busy_timeout = 5000; PRAGMA journal_mode = WAL;
+						CREATE TABLE IF NOT EXISTS ${this.#table} (
+							key TEXT PRIMARY KEY,
+							value BLOB,
+							stored_at INTEGER,
+							stale_at INTEGER,
+							expires_at INTEGER,
+							tags TEXT,
+							tombstone INTEGER NOT NULL DEFAULT 0
+						);
+						CREATE INDEX IF NOT EXISTS "${this.#options.table}_expires_at" ON ${this.#table} (expires_at);
+						CREATE TABLE IF NOT EXISTS ${this.#tagsTable} (tag TEXT NOT NULL, key TEXT NOT NULL, PRIMARY KEY (tag, key));
+						CREATE INDEX IF NOT EXISTS "${this.#options.table}_tags_key" ON ${this.#tagsTable} (key);`);
+
+					const { purgeInterval = 60 } = this.#options;
+					if (purgeInterval > 0) {
+						this.#shared.timer = setInterval(() => this.#purge(db), purgeInterval * 1000).unref();
+					}
+
+					return db;
+				})
+				.catch((err) => {
+					this.#shared.db = undefined;
+					throw err;
+				});
+		}
+
+		return this.#shared.db;
+	}
+
+	/**
+	 * Prepare a statement, reusing it across calls.
+	 *
+	 * @param db Database connection.
+	 * @param sql SQL statement.
+	 */
+	#prepare(db: DatabaseSync, sql: string): StatementSync {
+		let statement = this.#shared.statements.get(sql);
+		if (statement === undefined) {
+			statement = db.prepare(sql);
+			this.#shared.statements.set(sql, statement);
+		}
+
+		return statement;
+	}
+
+	/**
+	 * Run a function within a write transaction. The function must be synchronous, so that no other statement
+	 * issued by this process can sneak into the transaction.
+	 *
+	 * @param db Database connection.
+	 * @param fn Function to run.
+	 */
+	#transaction<T>(db: DatabaseSync, fn: () => T): T {
+		db.exec('BEGIN IMMEDIATE');
+		try {
+			const result = fn();
+			db.exec('COMMIT');
+
+			return result;
+		} catch (err) {
+			db.exec('ROLLBACK');
+
+			throw err;
+		}
+	}
+
+	/**
+	 * Remove expired entries, along with index rows of entries that no longer exist.
+	 *
+	 * @param db Database connection.
+	 */
+	#purge(db: DatabaseSync): void {
+		try {
+			this.#transaction(db, () => {
+				this.#prepare(db, `DELETE FROM ${this.#table} WHERE expires_at <= ?`).run(Date.now());
+				this.#prepare(db, `DELETE FROM ${this.#tagsTable} WHERE key NOT IN (SELECT key FROM ${this.#table})`).run();
+			});
+		} catch (err) {
+			logger.error({ err }, 'Got error while trying to purge expired cache keys');
+		}
+	}
+
+	/**
+	 * Stop purging expired entries, and close the database. The database is shared with children, which are closed as well.
+	 */
+	public async close(): Promise<void> {
+		clearInterval(this.#shared.timer);
+		const db = this.#shared.db;
+		this.#shared.db = undefined;
+		this.#shared.statements.clear();
+
+		(await db?.catch(() => undefined))?.close();
+	}
+
+	@BaseCache.metered('get')
+	public async getEntry(key: string): Promise<CacheEntry<Decoded<V, C>> | undefined> {
+		let row: EntryRow | undefined;
+		try {
+			const db = await this.#open();
+			row = this.#prepare(
+				db,
+				`SELECT key, value, stored_at, stale_at, tags, tombstone FROM ${this.#table} WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)`,
+			).get(addPrefix(this.#options.keyPrefix, key), Date.now()) as EntryRow | undefined;
+		} catch (err) {
+			this.metrics.recordError('get');
+			logger.error({ key, err }, 'Got error while trying to read cache key');
+
+			return undefined;
+		}
+
+		return row !== undefined ? this.#decode(key, row) : undefined;
+	}
+
+	@BaseCache.metered('get')
+	public async getEntries(keys: readonly string[]): Promise<Map<string, CacheEntry<Decoded<V, C>>>> {
+		const rows = new Map<string, EntryRow>();
+		try {
+			const db = await this.#open();
+			for (const chunk of chunks(keys, MAX_PARAMS)) {
+				const statement = this.#prepare(
+					db,
+					`SELECT key, value, stored_at, stale_at, tags, tombstone FROM ${this.#table} WHERE key IN (${chunk.map(() => '?').join(', ')}) AND (expires_at IS NULL OR expires_at > ?)`,
+				);
+				const fullKeys = chunk.map((key) => addPrefix(this.#options.keyPrefix, key));
+				for (const row of statement.all(...fullKeys, Date.now()) as EntryRow[]) {
+					rows.set(row.key, row);
+				}
+			}
+		} catch (err) {
+			this.metrics.recordError('get');
+			logger.error({ keys, err }, 'Got error while trying to read cache keys');
+
+			return new Map();
+		}
+
+		const entries = new Map<string, CacheEntry<Decoded<V, C>>>();
+		for (const key of keys) {
+			const row = rows.get(addPrefix(this.#options.keyPrefix, key));
+			const entry = row !== undefined ? this.#decode(key, row) : undefined;
+			if (entry !== undefined) {
+				entries.set(key, entry);
+			}
+		}
+
+		return entries;
+	}
+
+	/**
+	 * Decode an entry stored in the database.
+	 *
+	 * @param key Key.
+	 * @param row Stored row.
+	 */
+	#decode(key: string, row: EntryRow): CacheEntry<Decoded<V, C>> | undefined {
+		const storedAt = row.stored_at ?? undefined;
+		const staleAt = row.stale_at ?? undefined;
+		try {
+			const tags = row.tags !== null ? (JSON.parse(row.tags) as string[]) : undefined;
+			if (row.tombstone) {
+				return { storedAt, staleAt, tags, tombstone: true };
+			}
+
+			const value = row.value ?? new Uint8Array();
+			this.metrics.recordSize('get', value.length);
+
+			return { value: this.#codec.decode(value, row.key) as Decoded<V, C>, storedAt, staleAt, tags };
+		} catch (err) {
+			if (!(err instanceof CodecError) && !(err instanceof SyntaxError)) {
+				throw err;
+			}
+
+			this.metrics.recordError('get');
+			logger.warn(`Malformed ${this.#codec.name} data`);
+			logger.debug({ key, err }, `Could not parse ${this.#codec.name} data stored in SQLite cache`);
+
+			return undefined;
+		}
+	}
+
+	@BaseCache.metered('set')
+	public async setEntry(
+		key: string,
+		entry: CacheEntry<V | Decoded<V, C>>,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<void> {
+		await this.#write([[key, entry]], ttl, jitter);
+	}
+
+	@BaseCache.metered('set')
+	public async setEntries(
+		entries: Iterable<readonly [string, CacheEntry<V | Decoded<V, C>>]>,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<void> {
+		await this.#write([...entries], ttl, jitter);
+	}
+
+	/**
+	 * Write entries in a single transaction, replacing their tag index rows.
+	 *
+	 * @param entries Entries to be stored, by key.
+	 * @param ttl Time-to-live, expressed as number of seconds from current time.
+	 * @param jitter Jitter to apply to TTL.
+	 */
+	async #write(
+		entries: readonly (readonly [string, CacheEntry<V | Decoded<V, C>>])[],
+		ttl: number | undefined,
+		jitter: JitterMode | JitterFn | undefined,
+	): Promise<void> {
+		try {
+			const rows = entries.map(([key, { value, storedAt, staleAt, tags, tombstone }]) => {
+				const fullKey = addPrefix(this.#options.keyPrefix, key);
+				const payload = tombstone ? null : Buffer.from(this.#codec.encode(value, fullKey));
+				this.metrics.recordSize('set', payload?.length ?? 0);
+
+				return {
+					key: fullKey,
+					payload,
+					storedAt: storedAt ?? null,
+					staleAt: staleAt ?? null,
+					expiresAt: this.#expiresAt(ttl, jitter) ?? null,
+					tags: tags ?? [],
+					tombstone: tombstone ? 1 : 0,
+				};
+			});
+
+			const db = await this.#open();
+			this.#transaction(db, () => {
+				const upsert = this.#prepare(
+					db,
+					`INSERT OR REPLACE INTO ${this.#table} (key, value, stored_at, stale_at, expires_at, tags, tombstone) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+				);
+				const unindex = this.#prepare(db, `DELETE FROM ${this.#tagsTable} WHERE key = ?`);
+				const index = this.#prepare(db, `INSERT OR IGNORE INTO ${this.#tagsTable} (tag, key) VALUES (?, ?)`);
+				for (const { key, payload, storedAt, staleAt, expiresAt, tags, tombstone } of rows) {
+					upsert.run(key, payload, storedAt, staleAt, expiresAt, tags.length ? JSON.stringify(tags) : null, tombstone);
+					unindex.run(key);
+					for (const tag of tags) {
+						index.run(addPrefix(this.#options.keyPrefix, this.tagKey(tag)), key);
+					}
+				}
+			});
+		} catch (err) {
+			this.metrics.recordError('set');
+			logger.error({ keys: entries.map(([key]) => key), err }, 'Got error while trying to set cache key');
+		}
+	}
+
+	/**
+	 * Compute expiration timestamp of an entry, applying defaults and jitter.
+	 *
+	 * @param ttl Time-to-live, expressed as number of seconds from current time.
+	 * @param jitter Jitter to apply to TTL.
+	 */
+	#expiresAt(ttl: number | undefined, jitter: JitterMode | JitterFn | undefined): number | undefined {
+		ttl ??= this.#options.defaultTTL;
+		if (ttl === undefined) {
+			return undefined;
+		}
+
+		return Date.now() + Math.round(createJitter(jitter ?? this.#options.defaultJitter ?? JitterMode.None)(ttl * 1000));
+	}
+
+	public async ttl(key: string): Promise<number | undefined> {
+		const db = await this.#open();
+		const row = this.#prepare(
+			db,
+			`SELECT expires_at FROM ${this.#table} WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)`,
+		).get(addPrefix(this.#options.keyPrefix, key), Date.now()) as { expires_at: number | null } | undefined;
+		if (row === undefined) {
+			return undefined;
+		}
+
+		return row.expires_at !== null ? Math.max(row.expires_at - Date.now(), 0) / 1000 : Infinity;
+	}
+
+	public async touch(
+		key: string,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<boolean> {
+		const db = await this.#open();
+		const { changes } = this.#prepare(
+			db,
+			`UPDATE ${this.#table} SET expires_at = ? WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)`,
+		).run(this.#expiresAt(ttl, jitter) ?? null, addPrefix(this.#options.keyPrefix, key), Date.now());
+
+		return Number(changes) > 0;
+	}
+
+	public async increment(
+		key: string,
+		delta = 1,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<number> {
+		const fullKey = addPrefix(this.#options.keyPrefix, key);
+		const db = await this.#open();
+
+		return this.#transaction(db, () => {
+			const row = this.#prepare(
+				db,
+				`SELECT value, tombstone FROM ${this.#table} WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)`,
+			).get(fullKey, Date.now()) as Pick<EntryRow, 'value' | 'tombstone'> | undefined;
+			if (row === undefined || row.tombstone) {
+				this.#prepare(
+					db,
+					`INSERT OR REPLACE INTO ${this.#table} (key, value, stored_at, expires_at) VALUES (?, ?, ?, ?)`,
+				).run(
+					fullKey,
+					Buffer.from(this.#codec.encode(delta, fullKey)),
+					Date.now(),
+					this.#expiresAt(ttl, jitter) ?? null,
+				);
+
+				return delta;
+			}
+
+			const current = row.value !== null ? this.#codec.decode(row.value, fullKey) : undefined;
+			if (!Number.isInteger(current)) {
+				throw new TypeError(`Value of key ${key} is not an integer`);
+			}
+
+			const value = (current as number) + delta;
+			this.#prepare(db, `UPDATE ${this.#table} SET value = ? WHERE key = ?`).run(
+				Buffer.from(this.#codec.encode(value, fullKey)),
+				fullKey,
+			);
+
+			return value;
+		});
+	}
+
+	@BaseCache.metered('delete')
+	public async delete(key: string): Promise<void> {
+		const db = await this.#open();
+		this.#prepare(db, `DELETE FROM ${this.#table} WHERE key = ?`).run(addPrefix(this.#options.keyPrefix, key));
+	}
+
+	@BaseCache.metered('delete')
+	public async deleteMany(keys: readonly string[]): Promise<void> {
+		const db = await this.#open();
+		for (const chunk of chunks(keys, MAX_PARAMS)) {
+			this.#prepare(db, `DELETE FROM ${this.#table} WHERE key IN (${chunk.map(() => '?').join(', ')})`).run(
+				...chunk.map((key) => addPrefix(this.#options.keyPrefix, key)),
+			);
+		}
+	}
+
+	public async *keys(prefix?: string): AsyncGenerator<string, void, undefined> {
+		const db = await this.#open();
+		const rows = this.#prepare(
+			db,
+			`SELECT key FROM ${this.#table} WHERE key GLOB ? AND (expires_at IS NULL OR expires_at > ?) ORDER BY key`,
+		).all(escapeGlob(addPrefix(this.#options.keyPrefix, prefix)) + '*', Date.now()) as { key: string }[];
+		for (const row of rows) {
+			const key = stripPrefix(this.#options.keyPrefix, row.key)!;
+			if (!this.isInternalKey(key)) {
+				yield key;
+			}
+		}
+	}
+
+	public async clear(prefix?: string): Promise<void> {
+		await this.#deleteGlob(escapeGlob(addPrefix(this.#options.keyPrefix, prefix)) + '*');
+	}
+
+	public async clearPattern(pattern: string): Promise<void> {
+		await this.#deleteGlob(escapeGlob(this.#options.keyPrefix ?? '') + escapeGlob(pattern, /[?[]/g));
+	}
+
+	/**
+	 * Delete entries whose key matches a GLOB pattern, along with their tag index rows. Locks are preserved.
+	 *
+	 * @param glob GLOB pattern, including key prefix.
+	 */
+	async #deleteGlob(glob: string): Promise<void> {
+		const db = await this.#open();
+		this.#transaction(db, () => {
+			const rows = this.#prepare(db, `SELECT key FROM ${this.#table} WHERE key GLOB ?`).all(glob) as { key: string }[];
+			const keys = rows
+				.map(({ key }) => key)
+				.filter((key) => !this.isInternalKey(stripPrefix(this.#options.keyPrefix, key)!));
+			for (const chunk of chunks(keys, MAX_PARAMS)) {
+				const placeholders = chunk.map(() => '?').join(', ');
+				this.#prepare(db, `DELETE FROM ${this.#table} WHERE key IN (${placeholders})`).run(...chunk);
+				this.#prepare(db, `DELETE FROM ${this.#tagsTable} WHERE key IN (${placeholders})`).run(...chunk);
+			}
+		});
+	}
+
+	public async clearTags(...tags: string[]): Promise<void> {
+		const tagKeys = tags.map((tag) => addPrefix(this.#options.keyPrefix, this.tagKey(tag)));
+		const db = await this.#open();
+		this.#transaction(db, () => {
+			for (const tagKey of tagKeys) {
+				this.#prepare(
+					db,
+					`DELETE FROM ${this.#table} WHERE key IN (SELECT key FROM ${this.#tagsTable} WHERE tag = ?)`,
+				).run(tagKey);
+				this.#prepare(db, `DELETE FROM ${this.#tagsTable} WHERE tag = ?`).run(tagKey);
+			}
+		});
+	}
+
+	public async acquireLock(key: string, token: string, ttl: number): Promise<boolean> {
+		const fullKey = addPrefix(this.#options.keyPrefix, key);
+		const db = await this.#open();
+
+		return this.#transaction(db, () => {
+			const now = Date.now();
+			this.#prepare(db, `DELETE FROM ${this.#table} WHERE key = ? AND expires_at <= ?`).run(fullKey, now);
+			const { changes } = this.#prepare(
+				db,
+				`INSERT INTO ${this.#table} (key, value, stored_at, expires_at) VALUES (?, ?, ?, ?) ON CONFLICT (key) DO NOTHING`,
+			).run(fullKey, Buffer.from(token), now, now + Math.round(ttl * 1000));
+
+			return Number(changes) === 1;
+		});
+	}
+
+	public async releaseLock(key: string, token: string): Promise<boolean> {
+		const db = await this.#open();
+		const { changes } = this.#prepare(db, `DELETE FROM ${this.#table} WHERE key = ? AND value = ?`).run(
+			addPrefix(this.#options.keyPrefix, key),
+			Buffer.from(token),
+		);
+
+		return Number(changes) === 1;
+	}
+
+	public async extendLock(key: string, token: string, ttl: number): Promise<boolean> {
+		const db = await this.#open();
+		const now = Date.now();
+		const { changes } = this.#prepare(
+			db,
+			`UPDATE ${this.#table} SET expires_at = ? WHERE key = ? AND value = ? AND (expires_at IS NULL OR expires_at > ?)`,
+		).run(now + Math.round(ttl * 1000), addPrefix(this.#options.keyPrefix, key), Buffer.from(token), now);
+
+		return Number(changes) === 1;
+	}
+}
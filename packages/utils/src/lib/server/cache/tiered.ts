@@ -0,0 +1,233 @@
+import { createJitter, JitterMode, type JitterFn } from '../../utils/misc.js';
+import { addPrefix } from '../../utils/string.js';
+import { BaseCache, type CacheEntry } from './base.js';
+import type { InMemoryCache } from './in-memory.js';
+import { CacheMetrics } from './metrics.js';
+
+type TieredCacheOptions = {
+	/** Maximum time-to-live of entries in L1, expressed as number of seconds. Entries back-filled from L2 never outlive their copy in L2. */
+	l1TTL?: number;
+	defaultTTL?: number;
+	defaultJitter?: JitterMode | JitterFn;
+};
+
+/** Cache that can create key-prefixed children, such as {@see RedisCache} or {@see S3Cache}. */
+export interface NamespacedCache<V> extends BaseCache<V> {
+	child(keyPrefix: string): NamespacedCache<V>;
+}
+
+/**
+ * Layered cache, with a fast in-memory cache (L1) in front of a shared cache (L2).
+ *
+ * Reads check L1 first, then L2, back-filling L1. Writes, deletes and flushes go through both tiers.
+ */
+export class TieredCache<V> extends BaseCache<V> {
+	readonly #options: TieredCacheOptions;
+	readonly #l1: InMemoryCache<V>;
+	readonly #l2: NamespacedCache<V>;
+	readonly #keyPrefix: string | undefined;
+	protected readonly metrics: CacheMetrics;
+
+	public static init<V>(
+		l1: InMemoryCache<V>,
+		l2: NamespacedCache<V>,
+		options: TieredCacheOptions = {},
+	): TieredCache<V> {
+		return new this<V>(options, l1, l2);
+	}
+
+	private constructor(
+		options: TieredCacheOptions,
+		l1: InMemoryCache<V>,
+		l2: NamespacedCache<V>,
+		keyPrefix?: string | undefined,
+	) {
+		super();
+
+		this.#options = Object.freeze({ ...options });
+		this.#l1 = l1;
+		this.#l2 = l2;
+		this.#keyPrefix = keyPrefix;
+		this.metrics = new CacheMetrics('tiered', keyPrefix);
+	}
+
+	public child<V2 extends V>(keyPrefix: string, options?: Partial<TieredCacheOptions>): TieredCache<V2> {
+		return new TieredCache<V2>(
+			{ ...this.#options, ...options },
+			this.#l1.child<V2>(keyPrefix),
+			this.#l2.child(keyPrefix) as NamespacedCache<V2>,
+			addPrefix(this.#keyPrefix, keyPrefix),
+		);
+	}
+
+	/**
+	 * Compute TTL of L1 entries, so that they never outlive L2 entries.
+	 *
+	 * @param ttl TTL of L2 entries.
+	 */
+	#l1TTL(ttl: number | undefined): number | undefined {
+		const { l1TTL } = this.#options;
+
+		return ttl === undefined || l1TTL === undefined ? (l1TTL ?? ttl) : Math.min(ttl, l1TTL);
+	}
+
+	/**
+	 * Copy an entry read from L2 into L1, for no longer than the entry has left in L2.
+	 *
+	 * @param key Key.
+	 * @param entry Entry read from L2.
+	 * @param ttl Remaining TTL of the entry in L2, as returned by {@see BaseCache.ttl()}.
+	 */
+	async #backfill(key: string, entry: CacheEntry<V>, ttl: number | undefined): Promise<void> {
+		if (ttl === undefined) {
+			// Entry expired in L2 right after being read.
+			return;
+		}
+
+		await this.#l1.setEntry(key, entry, this.#l1TTL(Number.isFinite(ttl) ? ttl : undefined), JitterMode.None);
+	}
+
+	@BaseCache.metered('get')
+	public async getEntry(key: string): Promise<CacheEntry<V> | undefined> {
+		const cached = await this.#l1.getEntry(key);
+		if (cached !== undefined) {
+			return cached;
+		}
+
+		const [entry, ttl] = await Promise.all([this.#l2.getEntry(key), this.#l2.ttl(key)]);
+		if (entry !== undefined) {
+			await this.#backfill(key, entry, ttl);
+		}
+
+		return entry;
+	}
+
+	@BaseCache.metered('get')
+	public async getEntries(keys: readonly string[]): Promise<Map<string, CacheEntry<V>>> {
+		const cached = await this.#l1.getEntries(keys);
+		const missing = keys.filter((key) => !cached.has(key));
+		if (missing.length > 0) {
+			const entries = await this.#l2.getEntries(missing);
+			await Promise.all([...entries].map(async ([key, entry]) => this.#backfill(key, entry, await this.#l2.ttl(key))));
+			for (const [key, entry] of entries) {
+				cached.set(key, entry);
+			}
+		}
+
+		return new Map(keys.filter((key) => cached.has(key)).map((key) => [key, cached.get(key)!]));
+	}
+
+	@BaseCache.metered('set')
+	public async setEntry(
+		key: string,
+		entry: CacheEntry<V>,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<void> {
+		ttl ??= this.#options.defaultTTL;
+		if (ttl !== undefined) {
+			// Apply jitter once, so that TTLs do not drift between tiers.
+			ttl = createJitter(jitter ?? this.#options.defaultJitter ?? JitterMode.None)(ttl);
+		}
+
+		await Promise.all([
+			this.#l2.setEntry(key, entry, ttl, JitterMode.None),
+			this.#l1.setEntry(key, entry, this.#l1TTL(ttl), JitterMode.None),
+		]);
+	}
+
+	@BaseCache.metered('set')
+	public async setEntries(
+		entries: Iterable<readonly [string, CacheEntry<V>]>,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<void> {
+		ttl ??= this.#options.defaultTTL;
+		if (ttl !== undefined) {
+			// Jitter is applied once for the whole batch.
+			ttl = createJitter(jitter ?? this.#options.defaultJitter ?? JitterMode.None)(ttl);
+		}
+
+		const items = [...entries];
+		await Promise.all([
+			this.#l2.setEntries(items, ttl, JitterMode.None),
+			this.#l1.setEntries(items, this.#l1TTL(ttl), JitterMode.None),
+		]);
+	}
+
+	public ttl(key: string): Promise<number | undefined> {
+		return this.#l2.ttl(key);
+	}
+
+	public async touch(
+		key: string,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<boolean> {
+		ttl ??= this.#options.defaultTTL;
+		if (ttl !== undefined) {
+			// Apply jitter once, so that TTLs do not drift between tiers.
+			ttl = createJitter(jitter ?? this.#options.defaultJitter ?? JitterMode.None)(ttl);
+		}
+
+		const [touched] = await Promise.all([
+			this.#l2.touch(key, ttl, JitterMode.None),
+			this.#l1.touch(key, this.#l1TTL(ttl), JitterMode.None),
+		]);
+
+		return touched;
+	}
+
+	public async increment(
+		key: string,
+		delta?: number,
+		ttl?: number | undefined,
+		jitter?: JitterMode | JitterFn | undefined,
+	): Promise<number> {
+		// Counters live in L2 only: copies in L1 would be immediately outdated.
+		const [value] = await Promise.all([this.#l2.increment(key, delta, ttl, jitter), this.#l1.delete(key)]);
+
+		return value;
+	}
+
+	@BaseCache.metered('delete')
+	public async delete(key: string): Promise<void> {
+		await Promise.all([this.#l2.delete(key), this.#l1.delete(key)]);
+	}
+
+	@BaseCache.metered('delete')
+	public async deleteMany(keys: readonly string[]): Promise<void> {
+		await Promise.all([this.#l2.deleteMany(keys), this.#l1.deleteMany(keys)]);
+	}
+
+	public async *keys(prefix?: string): AsyncGenerator<string, void, undefined> {
+		const keys = this.#l2.keys(prefix);
+		for (let res = await keys.next(); !res.done; res = await keys.next()) {
+			yield res.value;
+		}
+	}
+
+	public async clear(prefix?: string): Promise<void> {
+		await Promise.all([this.#l2.clear(prefix), this.#l1.clear(prefix)]);
+	}
+
+	public async clearPattern(pattern: string): Promise<void> {
+		await Promise.all([this.#l2.clearPattern(pattern), this.#l1.clearPattern(pattern)]);
+	}
+
+	public async clearTags(...tags: string[]): Promise<void> {
+		await Promise.all([this.#l2.clearTags(...tags), this.#l1.clearTags(...tags)]);
+	}
+
+	public acquireLock(key: string, token: string, ttl: number): Promise<boolean> {
+		return this.#l2.acquireLock(key, token, ttl);
+	}
+
+	public releaseLock(key: string, token: string): Promise<boolean> {
+		return this.#l2.releaseLock(key, token);
+	}
+
+	public extendLock(key: string, token: string, ttl: number): Promise<boolean> {
+		return this.#l2.extendLock(key, token, ttl);
+	}
+}
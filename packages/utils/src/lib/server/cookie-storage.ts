@@ -0,0 +1,178 @@
+import type { Cookies } from '@sveltejs/kit';
+import { logger } from '../logger.js';
+import { CodecError, encryptedCodec, type Codec, type EncryptionOptions } from './cache/codecs.js';
+import type { StorageReadWriter } from './storage.js';
+
+type CookieOptions = Parameters<Cookies['set']>[2];
+
+export type CookieStorageOptions = EncryptionOptions & {
+	/** Name of cookies holding data. Data is split into chunks named `<name>.0`, `<name>.1`, and so on. */
+	name: string;
+	/** Settings of cookies holding data. */
+	cookieSettings: CookieOptions;
+	/** Codec used to serialize values before encryption. Defaults to `rich-json`. */
+	codec?: 'json' | 'rich-json' | 'msgpack';
+	/** Maximum size of each cookie, including its name and attributes, expressed as number of bytes. Defaults to 4096. */
+	maxCookieSize?: number;
+	/** Maximum number of cookies data can be split into. Defaults to 5. */
+	maxChunks?: number;
+};
+
+/** Data stored in cookies. Cookies can be kept by clients beyond their max age, so data carries its own expiration. */
+type CookieData<T> = { key: string; value: T; expiresAt?: number };
+
+/** Error thrown when data is too large to be stored in cookies. */
+export class CookieSizeError extends Error {
+	constructor(
+		public readonly size: number,
+		public readonly limit: number,
+	) {
+		super(`Data is too large to be stored in cookies: ${size} bytes exceed the limit of ${limit} bytes`);
+		this.name = 'CookieSizeError';
+	}
+}
+
+/**
+ * Storage keeping data in cookies, encrypted with AES-256-GCM and split into chunks to fit cookie size limits.
+ * A single value is stored at a time, bound to its key: reading any other key results in a miss.
+ *
+ * Data is usually written after the response has been generated, when cookies can no longer be set:
+ * use {@see CookieStorage.applyTo()} to add `Set-Cookie` headers to the response.
+ */
+export class CookieStorage<T> implements StorageReadWriter<T> {
+	readonly #cookies: Cookies;
+	readonly #options: Required<Pick<CookieStorageOptions, 'name' | 'cookieSettings' | 'maxCookieSize' | 'maxChunks'>>;
+	readonly #codec: Codec<CookieData<T>>;
+	/** Cookies to be set in the response, by name. */
+	readonly #pending = new Map<string, { value: string; options: CookieOptions }>();
+
+	public static init<T>(cookies: Cookies, options: CookieStorageOptions): CookieStorage<T> {
+		return new this<T>(cookies, options);
+	}
+
+	private constructor(
+		cookies: Cookies,
+		{ name, cookieSettings, codec = 'rich-json', maxCookieSize = 4096, maxChunks = 5, secrets }: CookieStorageOptions,
+	) {
+		this.#cookies = cookies;
+		this.#options = Object.freeze({ name, cookieSettings, maxCookieSize, maxChunks });
+		this.#codec = encryptedCodec<CookieData<T>>(codec, { secrets });
+	}
+
+	public async get(key: string): Promise<T | undefined> {
+		const data = this.#read();
+
+		return data?.key === key ? data.value : undefined;
+	}
+
+	/**
+	 * @throws {CookieSizeError} If data does not fit in the maximum number of cookies.
+	 */
+	public async set(key: string, value: T, ttl?: number): Promise<void> {
+		const expiresAt = ttl !== undefined ? Date.now() + ttl * 1000 : undefined;
+		// Data is bound to the cookie name as well, so that it cannot be moved across storages.
+		const data = Buffer.from(this.#codec.encode({ key, value, expiresAt }, this.#options.name)).toString('base64url');
+		const options =
+			ttl !== undefined ? { ...this.#options.cookieSettings, maxAge: Math.ceil(ttl) } : this.#options.cookieSettings;
+
+		const { name, maxCookieSize, maxChunks } = this.#options;
+		const chunkSize = maxCookieSize - this.#cookies.serialize(`${name}.${maxChunks - 1}`, '', options).length;
+		const chunks = Math.ceil(data.length / chunkSize);
+		if (chunks > maxChunks) {
+			throw new CookieSizeError(data.length, Math.max(chunkSize, 0) * maxChunks);
+		}
+
+		this.#write(
+			Array.from({ length: chunks }, (_, idx) => data.slice(idx * chunkSize, (idx + 1) * chunkSize)),
+			options,
+		);
+	}
+
+	public async delete(key: string): Promise<void> {
+		// Data might have already been replaced by a value with a different key, e.g. after a session ID rotation.
+		const data = this.#read();
+		if (data === undefined || data.key === key) {
+			this.#write([], this.#options.cookieSettings);
+		}
+	}
+
+	public async touch(key: string, ttl?: number): Promise<boolean> {
+		const data = this.#read();
+		if (data?.key !== key) {
+			return false;
+		}
+
+		await this.set(key, data.value, ttl);
+
+		return true;
+	}
+
+	/**
+	 * Add `Set-Cookie` headers for data written so far.
+	 *
+	 * @param headers Response headers.
+	 */
+	public applyTo(headers: Headers): void {
+		for (const [name, { value, options }] of this.#pending) {
+			headers.append('set-cookie', this.#cookies.serialize(name, value, options));
+		}
+
+		this.#pending.clear();
+	}
+
+	/**
+	 * Read a chunk of data, taking pending writes into account.
+	 *
+	 * @param idx Chunk index.
+	 */
+	#chunk(idx: number): string | undefined {
+		const name = `${this.#options.name}.${idx}`;
+		const pending = this.#pending.get(name);
+
+		return pending !== undefined ? pending.value || undefined : this.#cookies.get(name);
+	}
+
+	/**
+	 * Read and decrypt data stored in cookies, if present and not expired.
+	 */
+	#read(): CookieData<T> | undefined {
+		let raw = '';
+		for (let idx = 0, chunk = this.#chunk(idx); chunk !== undefined; chunk = this.#chunk(++idx)) {
+			raw += chunk;
+		}
+		if (!raw) {
+			return undefined;
+		}
+
+		try {
+			const data = this.#codec.decode(Buffer.from(raw, 'base64url'), this.#options.name);
+
+			return data.expiresAt === undefined || Date.now() < data.expiresAt ? data : undefined;
+		} catch (err) {
+			if (!(err instanceof CodecError)) {
+				throw err;
+			}
+
+			logger.warn(`Malformed ${this.#codec.name} data`);
+			logger.debug({ name: this.#options.name, err }, 'Could not decrypt data stored in cookies');
+
+			return undefined;
+		}
+	}
+
+	/**
+	 * Write chunks of data, removing leftover chunks of previous data.
+	 *
+	 * @param chunks Chunks.
+	 * @param options Cookie settings.
+	 */
+	#write(chunks: readonly string[], options: CookieOptions): void {
+		const { name, cookieSettings } = this.#options;
+		let idx = chunks.length;
+		while (this.#chunk(idx) !== undefined) {
+			this.#pending.set(`${name}.${idx++}`, { value: '', options: { ...cookieSettings, maxAge: 0 } });
+		}
+
+		chunks.forEach((value, idx) => this.#pending.set(`${name}.${idx}`, { value, options }));
+	}
+}
@@ -0,0 +1,71 @@
+import { logger } from '../logger.js';
+import { CodecError, encryptedCodec, type Codec, type CodecName, type EncryptionOptions } from './cache/codecs.js';
+import type { StorageReadWriter } from './storage.js';
+
+type EncryptedStorageOptions<T> = EncryptionOptions & {
+	/** Codec used to serialize values before encryption. Defaults to `rich-json`. */
+	codec?: CodecName | Codec<T>;
+};
+
+/**
+ * Storage encrypting values at rest, wrapping any storage of strings (such as a cache).
+ *
+ * Values are encrypted with AES-256-GCM, bound to their key, and stored as base64url strings. Tampered values,
+ * values moved to a different key, or values encrypted with a key that is no longer known, are treated as missing.
+ */
+export class EncryptedStorage<T> implements StorageReadWriter<T> {
+	readonly #storage: StorageReadWriter<string>;
+	readonly #codec: Codec<T>;
+
+	public static init<T>(storage: StorageReadWriter<string>, options: EncryptedStorageOptions<T>): EncryptedStorage<T> {
+		return new this<T>(storage, encryptedCodec<T>(options.codec ?? 'rich-json', options));
+	}
+
+	private constructor(storage: StorageReadWriter<string>, codec: Codec<T>) {
+		this.#storage = storage;
+		this.#codec = codec;
+	}
+
+	public async get(key: string): Promise<T | undefined> {
+		const data = await this.#storage.get(key);
+		if (data === undefined) {
+			return undefined;
+		}
+
+		try {
+			return this.#codec.decode(Buffer.from(data, 'base64url'), key);
+		} catch (err) {
+			if (!(err instanceof CodecError)) {
+				throw err;
+			}
+
+			logger.warn(`Malformed ${this.#codec.name} data`);
+			logger.debug({ key, err }, 'Could not decrypt data stored in encrypted storage');
+
+			return undefined;
+		}
+	}
+
+	public async set(key: string, value: T, ttl?: number): Promise<void> {
+		await this.#storage.set(key, Buffer.from(this.#codec.encode(value, key)).toString('base64url'), ttl);
+	}
+
+	public async touch(key: string, ttl?: number): Promise<boolean> {
+		if (this.#storage.touch === undefined) {
+			const data = await this.#storage.get(key);
+			if (data === undefined) {
+				return false;
+			}
+
+			await this.#storage.set(key, data, ttl);
+
+			return true;
+		}
+
+		return this.#storage.touch(key, ttl);
+	}
+
+	public async delete(key: string): Promise<void> {
+		await this.#storage.delete(key);
+	}
+}
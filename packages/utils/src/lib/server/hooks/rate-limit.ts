@@ -0,0 +1,155 @@
+import type { Handle, RequestEvent } from '@sveltejs/kit';
+import type { Logger } from 'pino';
+import type { BaseCache } from '../cache/base.js';
+import { computeHash } from '../utils.js';
+
+/**
+ * Rate limiting algorithm:
+ * - `fixed-window`: requests are counted in consecutive windows of fixed length;
+ * - `sliding-window`: requests in the previous window are also counted, weighted by how much it overlaps
+ *   with a window ending now. This smooths bursts at window boundaries.
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window';
+
+/**
+ * Identity of clients requests are counted by:
+ * - `ip`: client IP address;
+ * - `session`: session ID, requires {@see buildSession} to run first;
+ * - `user`: hash of user info, falls back to client IP address for anonymous requests;
+ * - a function returning a custom key, or `undefined` to fall back to client IP address.
+ */
+export type RateLimitKey =
+	| 'ip'
+	| 'session'
+	| 'user'
+	| ((event: RequestEvent) => string | undefined | PromiseLike<string | undefined>);
+
+export type RateLimitPolicy = {
+	/** Maximum number of requests per window. Use `Infinity` to disable rate limiting. */
+	limit: number;
+	/** Window length, expressed as number of seconds. */
+	window: number;
+	/** Rate limiting algorithm. Defaults to `fixed-window`. */
+	algorithm?: RateLimitAlgorithm;
+};
+
+/** Policy applied to requests matching a route ID and/or an HTTP method. Requests are counted separately for each rule. */
+export type RateLimitRule = Partial<RateLimitPolicy> & {
+	/** Route ID, e.g. `/api/[id]`. */
+	routeId?: string;
+	/** HTTP method, or list of methods. */
+	method?: string | readonly string[];
+};
+
+export type RateLimitOptions = RateLimitPolicy & {
+	/** Identity of clients requests are counted by. Defaults to `ip`. */
+	key?: RateLimitKey;
+	/** Rules overriding the default policy. The first matching rule applies. */
+	rules?: readonly RateLimitRule[];
+	/** Logger instance. */
+	logger?: Logger;
+};
+
+/**
+ * Resolve the identity of the client that issued a request.
+ *
+ * @param event Request event.
+ * @param key Identity of clients requests are counted by.
+ */
+const resolveClientKey = async (event: RequestEvent, key: RateLimitKey): Promise<string> => {
+	let clientKey: string | undefined;
+	if (typeof key === 'function') {
+		clientKey = await key(event);
+	} else if (key === 'session') {
+		clientKey = `session:${(await event.locals.session).id}`;
+	} else if (key === 'user') {
+		const userInfo = await event.locals.userInfo;
+		clientKey = userInfo !== undefined ? `user:${computeHash(JSON.stringify(userInfo))}` : undefined;
+	}
+
+	return clientKey ?? `ip:${event.getClientAddress()}`;
+};
+
+/**
+ * Count a request, and check if the client has exceeded the limit.
+ *
+ * @param cache Cache holding counters.
+ * @param key Key of the counter, excluding the window.
+ * @param policy Rate limiting policy.
+ * @returns Number of remaining requests (negative if the limit has been exceeded), and time until the current window ends.
+ */
+const consume = async (
+	cache: BaseCache<unknown>,
+	key: string,
+	{ limit, window, algorithm = 'fixed-window' }: RateLimitPolicy,
+): Promise<{ remaining: number; reset: number }> => {
+	const windowMs = window * 1000;
+	const now = Date.now();
+	const current = Math.floor(now / windowMs);
+	const reset = Math.ceil(((current + 1) * windowMs - now) / 1000);
+	if (algorithm === 'fixed-window') {
+		const count = await cache.increment(`${key}:${current}`, 1, window);
+
+		return { remaining: limit - count, reset };
+	}
+
+	// Counters of sliding windows must outlive the following window.
+	const [count, previous] = await Promise.all([
+		cache.increment(`${key}:${current}`, 1, window * 2),
+		cache.get(`${key}:${current - 1}`),
+	]);
+	const weight = 1 - (now - current * windowMs) / windowMs;
+
+	return { remaining: limit - Math.ceil(count + (typeof previous === 'number' ? previous : 0) * weight), reset };
+};
+
+/**
+ * Build a handle that limits the rate of requests per client, with counters stored in a cache.
+ * Requests exceeding the limit receive a `429 Too Many Requests` response.
+ * If counters cannot be updated, requests are let through.
+ *
+ * @param cache Cache holding counters. Must support {@see BaseCache.increment()}.
+ * @param options Rate limiting options.
+ */
+export const buildRateLimit =
+	(cache: BaseCache<unknown>, { key = 'ip', rules = [], logger, ...defaults }: RateLimitOptions): Handle =>
+	async ({ event, resolve }) => {
+		const idx = rules.findIndex(
+			({ routeId, method }) =>
+				(routeId === undefined || routeId === event.route.id) &&
+				(method === undefined || [method].flat().includes(event.request.method)),
+		);
+		const policy = { ...defaults, ...rules[idx] };
+		if (!Number.isFinite(policy.limit)) {
+			return resolve(event);
+		}
+
+		let outcome: { remaining: number; reset: number };
+		try {
+			const clientKey = await resolveClientKey(event, key);
+			outcome = await consume(cache, `${idx === -1 ? 'default' : `rule-${idx}`}:${clientKey}`, policy);
+		} catch (err) {
+			logger?.error({ err }, 'Could not update rate limit counters, letting request through');
+
+			return resolve(event);
+		}
+
+		const headers = {
+			'RateLimit-Limit': `${policy.limit}`,
+			'RateLimit-Remaining': `${Math.max(outcome.remaining, 0)}`,
+			'RateLimit-Reset': `${outcome.reset}`,
+			'RateLimit-Policy': `${policy.limit};w=${policy.window}`,
+		};
+		if (outcome.remaining < 0) {
+			logger?.debug({ routeId: event.route.id, policy }, 'Rate limit exceeded');
+
+			return new Response('Too Many Requests', {
+				status: 429,
+				headers: { ...headers, 'Retry-After': `${outcome.reset}` },
+			});
+		}
+
+		event.setHeaders(headers);
+
+		return resolve(event);
+	};
@@ -1,13 +1,15 @@
 import type { Handle } from '@sveltejs/kit';
 import type { Logger } from 'pino';
-import { Session, type SessionCookieOptions } from '../session.js';
+import { CookieSizeError, CookieStorage, type CookieStorageOptions } from '../cookie-storage.js';
+import { Session, type SessionCookieOptions, type SessionOptions, type StoredSession } from '../session.js';
 import type { StorageReadWriter } from '../storage.js';
 
 export const buildSession =
 	<T extends App.SessionData>(
-		storage: StorageReadWriter<Partial<T>>,
+		storage: StorageReadWriter<StoredSession<T>>,
 		cookieSettings: SessionCookieOptions,
 		logger?: Logger,
+		options?: SessionOptions,
 	): Handle =>
 	({ event, resolve }) =>
 		Session.with(
@@ -20,4 +22,66 @@ export const buildSession =
 				return resolve(event);
 			},
 			logger,
+			options,
 		);
+
+/**
+ * Build a handle for sessions whose data is stored client-side, encrypted in cookies, instead of in a server storage.
+ * Data cookies are named after the session cookie, with a `.data` suffix. Data too large to be stored in cookies is
+ * logged and discarded, keeping previous data, rather than failing a response that has already been generated.
+ *
+ * @param cookieSettings Session cookie settings.
+ * @param storageOptions Encryption and size limits of data cookies.
+ * @param logger Logger instance.
+ * @param options Session options.
+ */
+export const buildCookieSession =
+	<T extends App.SessionData>(
+		cookieSettings: SessionCookieOptions,
+		storageOptions: Omit<CookieStorageOptions, 'name' | 'cookieSettings'>,
+		logger?: Logger,
+		options?: SessionOptions,
+	): Handle =>
+	async ({ event, resolve }) => {
+		const { name, secrets: _secrets, ...settings } = cookieSettings;
+		const storage = CookieStorage.init<StoredSession<T>>(event.cookies, {
+			...storageOptions,
+			name: `${name}.data`,
+			cookieSettings: settings,
+		});
+		let response: Response | undefined;
+		try {
+			response = await Session.with(
+				event.cookies,
+				cookieSettings,
+				storage,
+				async (session) => {
+					event.locals.session = session;
+
+					return (response = await resolve(event));
+				},
+				logger,
+				options,
+			);
+		} catch (err) {
+			if (!(err instanceof CookieSizeError) || response === undefined) {
+				throw err;
+			}
+
+			logger?.warn({ err }, 'Session data too large to be stored in cookies, discarding changes');
+		}
+
+		try {
+			storage.applyTo(response.headers);
+		} catch (err) {
+			if (!(err instanceof TypeError)) {
+				throw err;
+			}
+
+			// Headers of some responses are immutable, e.g. those of `Response.redirect()` or of proxied `fetch()` responses.
+			response = new Response(response.body, response);
+			storage.applyTo(response.headers);
+		}
+
+		return response;
+	};
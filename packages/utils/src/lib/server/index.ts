@@ -1,4 +1,6 @@
 export * from './cache/index.js';
+export * from './cookie-storage.js';
+export * from './encrypted-storage.js';
 export * from './hooks/index.js';
 export * from './session.js';
 export * from './sitemap.js';
@@ -1,23 +1,69 @@
 import type { Cookies } from '@sveltejs/kit';
 import type { Logger } from 'pino';
+import { UnsupportedOperationError } from './cache/base.js';
+import { CookieSizeError } from './cookie-storage.js';
 import type { StorageReader, StorageReadWriter, StorageWriter } from './storage.js';
-import { secureId } from './utils.js';
+import { secureId, signValue, unsignValue } from './utils.js';
 
 export type SessionData = Partial<Record<string, unknown>>;
-export type SessionCookieOptions = Parameters<Cookies['set']>[2] & { name: string };
+export type SessionCookieOptions = Parameters<Cookies['set']>[2] & {
+	name: string;
+	/**
+	 * Secrets used to sign the session cookie as `id.signature`, current one first. Cookies with a missing or invalid
+	 * signature are rejected without looking up storage. Cookies signed with previous secrets are accepted and re-signed,
+	 * so that secrets can be rotated without invalidating sessions. By default, cookies are not signed.
+	 */
+	secrets?: string | readonly string[];
+};
+
+export type SessionOptions = {
+	/**
+	 * Time after which an inactive session expires, expressed as number of seconds. Every request extends the session,
+	 * both in storage and in the cookie, even if data has not changed. By default, sessions never expire due to inactivity.
+	 */
+	idleTimeout?: number;
+	/**
+	 * Maximum lifetime of a session regardless of activity, expressed as number of seconds from its creation.
+	 * Once exceeded, a new empty session is started. By default, sessions have no maximum lifetime.
+	 */
+	absoluteTimeout?: number;
+	/**
+	 * Do not store new sessions nor set their cookie until something is written, so that responses to visitors
+	 * who never use the session do not carry a `Set-Cookie` header. Disabled by default.
+	 */
+	lazy?: boolean;
+};
+
+/** Session data as kept in storage. When sessions have a maximum lifetime, data is wrapped along with its creation timestamp. */
+export type StoredSession<T extends SessionData> = Partial<T> | SessionEnvelope<T>;
+type SessionEnvelope<T extends SessionData> = { data: Partial<T>; createdAt: number };
+
+/**
+ * Check whether stored session data is wrapped along with its creation timestamp.
+ *
+ * @param stored Stored session data.
+ */
+const isEnvelope = <T extends SessionData>(stored: StoredSession<T>): stored is SessionEnvelope<T> =>
+	Object.keys(stored).sort().join() === 'createdAt,data' &&
+	typeof stored.createdAt === 'number' &&
+	typeof stored.data === 'object' &&
+	stored.data !== null;
 
 export class Session<T extends SessionData> {
 	/** @deprecated Use {@see Session.with()} instead. */
 	static async init<T extends SessionData>(
 		cookies: Cookies,
 		cookieSettings: SessionCookieOptions,
-		storage: StorageReader<Partial<T>>,
+		storage: StorageReader<StoredSession<T>>,
 	): Promise<Session<T>> {
 		return this.#init(cookies, cookieSettings, storage);
 	}
 
 	/** @deprecated Use {@see Session.with()} instead. */
-	static async persist<T extends SessionData>(session: Session<T>, storage: StorageWriter<Partial<T>>): Promise<void> {
+	static async persist<T extends SessionData>(
+		session: Session<T>,
+		storage: StorageWriter<StoredSession<T>>,
+	): Promise<void> {
 		return this.#persist(session, storage);
 	}
 
@@ -38,40 +84,71 @@ export class Session<T extends SessionData> {
 	 * @param cookieSettings Cookie settings.
 	 * @param storage Session storage (usually cache).
 	 * @param logger Logger instance.
+	 * @param options Session options.
 	 */
 	static async #init<T extends SessionData>(
 		cookies: Cookies,
 		cookieSettings: SessionCookieOptions,
-		storage: StorageReader<Partial<T>>,
+		storage: StorageReader<StoredSession<T>>,
 		logger?: Logger,
+		options: SessionOptions = {},
 	): Promise<Session<T>> {
-		try {
-			const sessId = cookies.get(cookieSettings.name);
-			if (!sessId) {
-				const newSession = this.#newEmptySession<T>();
-				logger?.debug({ sessId: newSession.id }, 'Initializing new session');
-				cookies.set(cookieSettings.name, newSession.id, cookieSettings);
-
-				return newSession;
-			}
-
-			const data = await storage.get(sessId);
-			if (data === undefined) {
-				const newSession = this.#newEmptySession<T>();
-				logger?.warn({ oldSessId: sessId, sessId: newSession.id }, 'Missing session data, initializing new session');
-				cookies.set(cookieSettings.name, newSession.id, cookieSettings);
+		const { secrets: rawSecrets, ...settings } = cookieSettings;
+		const secrets = rawSecrets !== undefined ? [rawSecrets].flat() : undefined;
+		if (secrets?.length === 0) {
+			throw new TypeError('At least one secret is required to sign session cookies');
+		}
 
-				return newSession;
+		let session: Session<T>;
+		let resign = false;
+		try {
+			const cookie = cookies.get(cookieSettings.name);
+			const unsigned = cookie && secrets ? unsignValue(cookie, secrets) : undefined;
+			const sessId = secrets ? unsigned?.value : cookie;
+			const stored = sessId ? await storage.get(sessId) : undefined;
+			if (!cookie) {
+				session = this.#newEmptySession<T>();
+				logger?.debug({ sessId: session.id }, 'Initializing new session');
+			} else if (!sessId) {
+				session = this.#newEmptySession<T>();
+				logger?.warn({ sessId: session.id }, 'Invalid session cookie signature, initializing new session');
+			} else if (stored === undefined) {
+				session = this.#newEmptySession<T>();
+				logger?.warn({ oldSessId: sessId, sessId: session.id }, 'Missing session data, initializing new session');
+			} else {
+				const restored = isEnvelope(stored) ? new this<T>(sessId, stored.data) : new this<T>(sessId, stored);
+				restored.#options = options;
+				restored.#createdAt = isEnvelope(stored) ? stored.createdAt : restored.#createdAt;
+				if (restored.#expired()) {
+					session = this.#newEmptySession<T>();
+					logger?.debug(
+						{ oldSessId: sessId, sessId: session.id },
+						'Session lifetime exceeded, initializing new session',
+					);
+				} else {
+					logger?.trace({ sessId }, 'Retrieved session data');
+					session = restored;
+					// Cookies signed with a previous secret are re-signed with the current one.
+					resign = (unsigned?.secretIdx ?? 0) > 0;
+				}
 			}
-
-			logger?.trace({ sessId }, 'Retrieved session data');
-
-			return new this<T>(sessId, data);
 		} catch (err) {
 			logger?.error({ err }, 'Error loading session data');
 
 			throw new Error('Could not initialize session', { cause: err });
 		}
+
+		// Cookies of expiring sessions are refreshed on every request, to slide their expiration.
+		session.#options = options;
+		session.#cookies = { cookies, cookieSettings: settings, secrets };
+		if (session.#isNew && options.lazy) {
+			session.#dirty = false;
+			session.#cookiePending = true;
+		} else if (session.#isNew || session.#ttl() !== undefined || resign) {
+			session.#setCookie();
+		}
+
+		return session;
 	}
 
 	/**
@@ -82,28 +159,88 @@ export class Session<T extends SessionData> {
 	 */
 	static async #persist<T extends SessionData>(
 		session: Session<T>,
-		storage: StorageWriter<Partial<T>>,
+		storage: StorageWriter<StoredSession<T>>,
 		logger?: Logger,
 	): Promise<void> {
-		if (!session.#dirty) {
+		// Sessions expiring due to inactivity are extended on every request, even if data has not changed.
+		const refresh = !session.#dirty && !session.#isNew && session.#options.idleTimeout !== undefined;
+		if (!session.#dirty && !refresh) {
 			return;
 		}
 
 		try {
+			if (session.#expired()) {
+				// Session has outlived its maximum lifetime while handling the request: a new one starts on next request.
+				logger?.debug({ sessId: session.id }, 'Session lifetime exceeded, destroying session');
+				for (const sessId of [...session.#oldIds, ...(session.#isNew ? [] : [session.id])]) {
+					await storage.delete(sessId);
+				}
+				session.#oldIds.clear();
+				session.#dirty = false;
+
+				return;
+			}
+
+			const ttl = session.#ttl();
+			if (refresh && (await this.#touch(storage, session.id, ttl))) {
+				logger?.trace({ sessId: session.id, ttl }, 'Session expiration extended');
+
+				return;
+			}
+
 			logger?.trace({ sessId: session.id }, 'Persisting session data');
 
-			await storage.set(session.id, session.#data);
+			const data: StoredSession<T> =
+				session.#options.absoluteTimeout !== undefined
+					? { data: session.#data, createdAt: session.#createdAt }
+					: session.#data;
+			await storage.set(session.id, data, ttl);
 			session.#dirty = false;
 			session.#isNew = false;
 
+			for (const oldSessId of session.#oldIds) {
+				logger?.trace({ oldSessId, sessId: session.id }, 'Deleting data stored under previous session ID');
+
+				await storage.delete(oldSessId);
+				session.#oldIds.delete(oldSessId);
+			}
+
 			logger?.debug('Session data persisted');
 		} catch (err) {
 			logger?.error({ err }, 'Failed to persist session data');
+			if (err instanceof CookieSizeError) {
+				// Unlike storage outages, this is not going to resolve by itself: data written by the request would be lost.
+				throw err;
+			}
 
 			return;
 		}
 	}
 
+	/**
+	 * Extend expiration of stored session data without rewriting it, if storage supports it.
+	 *
+	 * @param storage Session storage (usually cache).
+	 * @param sessId Session ID.
+	 * @param ttl Time-to-live, expressed as number of seconds.
+	 * @returns Whether expiration has been extended.
+	 */
+	static async #touch<T extends SessionData>(
+		storage: StorageWriter<StoredSession<T>>,
+		sessId: string,
+		ttl: number | undefined,
+	): Promise<boolean> {
+		try {
+			return (await storage.touch?.(sessId, ttl)) ?? false;
+		} catch (err) {
+			if (err instanceof UnsupportedOperationError) {
+				return false;
+			}
+
+			throw err;
+		}
+	}
+
 	/**
 	 * Invoke a callback with session data to be loaded asynchronously.
 	 * @param cookies Request cookies.
@@ -111,20 +248,23 @@ export class Session<T extends SessionData> {
 	 * @param storage Session storage (usually cache).
 	 * @param callback Callback to be invoked with session data.
 	 * @param logger Logger instance.
+	 * @param options Session options.
+	 * @throws {CookieSizeError} If session data is too large to be stored in cookies.
 	 */
 	public static async with<T extends SessionData, R>(
 		cookies: Cookies,
 		cookieSettings: SessionCookieOptions,
-		storage: StorageReadWriter<Partial<T>>,
+		storage: StorageReadWriter<StoredSession<T>>,
 		callback: (session: Promise<Session<T>>) => R | PromiseLike<R>,
 		logger?: Logger,
+		options?: SessionOptions,
 	): Promise<R> {
-		const session = this.#init(cookies, cookieSettings, storage, logger);
+		const session = this.#init(cookies, cookieSettings, storage, logger, options);
 
 		try {
 			return await callback(session);
 		} finally {
-			this.#persist(await session, storage, logger);
+			await this.#persist(await session, storage, logger);
 		}
 	}
 
@@ -136,6 +276,16 @@ export class Session<T extends SessionData> {
 	#dirty = false;
 	/** Whether session is new. */
 	#isNew = false;
+	/** Previous session IDs whose data must be deleted on persist. */
+	readonly #oldIds = new Set<string>();
+	/** Cookies holding session ID, and their settings. */
+	#cookies?: { cookies: Cookies; cookieSettings: SessionCookieOptions; secrets: readonly string[] | undefined };
+	/** Whether session cookie is yet to be set, see {@see SessionOptions.lazy}. */
+	#cookiePending = false;
+	/** Session options. */
+	#options: SessionOptions = {};
+	/** Timestamp (in milliseconds) when session was created. */
+	#createdAt = Date.now();
 
 	protected constructor(id: string, data: Partial<T>) {
 		this.#id = id;
@@ -163,6 +313,57 @@ export class Session<T extends SessionData> {
 		return this.#isNew;
 	}
 
+	/**
+	 * Mark session as needing to be persisted, setting its cookie if it is still pending.
+	 */
+	#markDirty(): void {
+		this.#dirty = true;
+		if (this.#cookiePending) {
+			this.#setCookie();
+		}
+	}
+
+	/**
+	 * Set cookie holding session ID.
+	 */
+	#setCookie(): void {
+		this.#cookiePending = false;
+		if (this.#cookies === undefined) {
+			return;
+		}
+
+		const { cookies, cookieSettings, secrets } = this.#cookies;
+		const maxAge = this.#ttl();
+		cookies.set(
+			cookieSettings.name,
+			secrets ? signValue(this.#id, secrets[0]) : this.#id,
+			maxAge !== undefined ? { ...cookieSettings, maxAge } : cookieSettings,
+		);
+	}
+
+	/**
+	 * Compute remaining session time-to-live, according to idle timeout and maximum lifetime.
+	 *
+	 * @returns Time-to-live, expressed as number of seconds, or `undefined` if session never expires.
+	 */
+	#ttl(): number | undefined {
+		const { idleTimeout = Infinity, absoluteTimeout } = this.#options;
+		const remaining =
+			absoluteTimeout !== undefined ? (this.#createdAt + absoluteTimeout * 1000 - Date.now()) / 1000 : Infinity;
+		const ttl = Math.min(idleTimeout, remaining);
+
+		return Number.isFinite(ttl) ? Math.ceil(ttl) : undefined;
+	}
+
+	/**
+	 * Check if session has expired, i.e. no time is left before it must be discarded.
+	 */
+	#expired(): boolean {
+		const ttl = this.#ttl();
+
+		return ttl !== undefined && ttl <= 0;
+	}
+
 	/**
 	 * Check if a key is set in session data.
 	 * @param key Key.
@@ -186,7 +387,7 @@ export class Session<T extends SessionData> {
 	 */
 	public write<K extends keyof T>(key: K, value: T[K] | undefined): this {
 		this.#data[key] = structuredClone(value);
-		this.#dirty = true;
+		this.#markDirty();
 
 		return this;
 	}
@@ -196,8 +397,11 @@ export class Session<T extends SessionData> {
 	 * @param key Key.
 	 */
 	public delete<K extends keyof T>(key: K): this {
-		delete this.#data[key];
-		this.#dirty = true;
+		// Lazy sessions are only stored when their data actually changes.
+		if (key in this.#data || !this.#options.lazy) {
+			delete this.#data[key];
+			this.#markDirty();
+		}
 
 		return this;
 	}
@@ -231,12 +435,30 @@ export class Session<T extends SessionData> {
 		return computed;
 	}
 
+	/**
+	 * Issue a new session ID, keeping session data. Data stored under the previous ID is deleted when the session is persisted.
+	 * Should be invoked whenever privileges change (e.g. after login), to prevent session fixation attacks.
+	 */
+	public regenerate(): this {
+		if (!this.#isNew) {
+			this.#oldIds.add(this.#id);
+		}
+
+		this.#id = secureId();
+		this.#cookiePending = true;
+		this.#markDirty();
+
+		return this;
+	}
+
 	/**
 	 * Clear session data.
 	 */
 	public clear(): this {
-		this.#data = {};
-		this.#dirty = true;
+		if (Object.keys(this.#data).length > 0 || !this.#options.lazy) {
+			this.#data = {};
+			this.#markDirty();
+		}
 
 		return this;
 	}
@@ -2,8 +2,23 @@ export interface StorageReader<T> {
 	get(key: string): Promise<T | undefined>;
 }
 export interface StorageWriter<T> {
-	set(key: string, value: T): Promise<void>;
+	/**
+	 * Store a value.
+	 *
+	 * @param key Key.
+	 * @param value Value.
+	 * @param ttl Time-to-live, expressed as number of seconds from current time. Storages that do not support expiration may ignore it.
+	 */
+	set(key: string, value: T, ttl?: number): Promise<void>;
 	delete(key: string): Promise<void>;
+	/**
+	 * Update the expiration of a value without rewriting it.
+	 *
+	 * @param key Key.
+	 * @param ttl Time-to-live, expressed as number of seconds from current time.
+	 * @returns Whether the value was stored.
+	 */
+	touch?(key: string, ttl?: number): Promise<boolean>;
 }
 
 export interface StorageReadWriter<T> extends StorageReader<T>, StorageWriter<T> {}
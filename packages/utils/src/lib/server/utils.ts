@@ -1,4 +1,4 @@
-import { createHash, randomBytes } from 'node:crypto';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
 import { mkdtemp, rm } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
@@ -24,3 +24,39 @@ export type Hashed<T> = { hash: string } & T;
  * @param algo Algorithm.
  */
 export const computeHash = (input: string, algo = 'sha256'): string => createHash(algo).update(input).digest('hex');
+
+/**
+ * Sign a value with HMAC-SHA256, appending the signature to it as `value.signature`.
+ *
+ * @param value Value to sign.
+ * @param secret Signing secret.
+ */
+export const signValue = (value: string, secret: string): string =>
+	`${value}.${createHmac('sha256', secret).update(value).digest('base64url')}`;
+
+/**
+ * Verify a value signed with {@see signValue}, trying each of the secrets.
+ *
+ * @param signed Signed value.
+ * @param secrets Signing secrets, current one first.
+ * @returns Original value along with the index of the secret it was signed with, or `undefined` if the signature is invalid.
+ */
+export const unsignValue = (
+	signed: string,
+	secrets: readonly string[],
+): { value: string; secretIdx: number } | undefined => {
+	const idx = signed.lastIndexOf('.');
+	if (idx === -1) {
+		return undefined;
+	}
+
+	const value = signed.slice(0, idx);
+	const signature = Buffer.from(signed.slice(idx + 1));
+	const secretIdx = secrets.findIndex((secret) => {
+		const expected = Buffer.from(signValue(value, secret).slice(idx + 1));
+
+		return expected.length === signature.length && timingSafeEqual(expected, signature);
+	});
+
+	return secretIdx !== -1 ? { value, secretIdx } : undefined;
+};
@@ -1,7 +1,10 @@
-import { BaseCache } from '$lib/server/cache/base';
+import { BaseCache, UnsupportedOperationError, type CacheEntry } from '$lib/server/cache/base';
 import { InMemoryCache } from '$lib/server/cache/in-memory';
+import { Lock, LockError } from '$lib/server/cache/lock';
 import { asyncIterableToArray } from '$lib/utils/collections';
-import { beforeEach, describe, expect, it } from 'vitest';
+import { timeout } from '$lib/utils/misc';
+import kvjs from '@heyputer/kv.js';
+import { beforeEach, describe, expect, expectTypeOf, it } from 'vitest';
 
 describe(BaseCache.name, () => {
 	describe('remember', () => {
@@ -38,5 +41,363 @@ describe(BaseCache.name, () => {
 			await expect(cache.get('bar')).resolves.toBeUndefined();
 			await expect(asyncIterableToArray(cache.keys())).resolves.to.has.members(['foo']);
 		});
+
+		it('should invoke the callback only once for concurrent misses', async () => {
+			let count = 0;
+			const callback = async () => {
+				count++;
+
+				return timeout(20, `value ${count}`);
+			};
+
+			const results = await Promise.all([...Array(5)].map(() => cache.remember('bar', callback)));
+
+			expect(results).to.deep.equal(Array(5).fill('value 1'));
+			expect(count).to.equals(1);
+			await expect(cache.get('bar')).resolves.equals('value 1');
+		});
+
+		it('should share errors thrown by the callback among concurrent misses', async () => {
+			const reason = new Error('rejected because reasons');
+			let count = 0;
+			const callback = async () => {
+				count++;
+				await timeout(20);
+
+				throw reason;
+			};
+
+			const results = await Promise.allSettled([...Array(3)].map(() => cache.remember('bar', callback)));
+
+			expect(results).to.deep.equal(Array(3).fill({ status: 'rejected', reason }));
+			expect(count).to.equals(1);
+			await expect(cache.remember('bar', async () => 'recovered')).resolves.equals('recovered');
+		});
+	});
+
+	describe('remember with soft TTL', () => {
+		const cache = InMemoryCache.init<string>({});
+		beforeEach(async () => {
+			await cache.clear();
+		});
+
+		it('should store the time after which the value is stale', async () => {
+			const before = Date.now();
+			await expect(cache.remember('foo', async () => 'bar', 10, undefined, { softTtl: 5 })).resolves.equals('bar');
+
+			const entry = await cache.getEntry('foo');
+			expect(entry?.storedAt).to.be.within(before, Date.now());
+			expect(entry?.staleAt).to.equals(entry!.storedAt! + 5000);
+		});
+
+		it('should derive the stale time from TTL when refreshing ahead', async () => {
+			await expect(cache.remember('foo', async () => 'bar', 10, undefined, { refreshAhead: 0.8 })).resolves.equals(
+				'bar',
+			);
+
+			const entry = await cache.getEntry('foo');
+			expect(entry?.staleAt).to.equals(entry!.storedAt! + 8000);
+		});
+
+		it('should return the stale value and refresh it in background', async () => {
+			await cache.setEntry('foo', { value: 'stale', storedAt: Date.now() - 2000, staleAt: Date.now() - 1000 });
+
+			let count = 0;
+			const callback = async () => {
+				count++;
+
+				return timeout(20, 'fresh');
+			};
+
+			const results = await Promise.all([
+				cache.remember('foo', callback, 10, undefined, { softTtl: 5 }),
+				cache.remember('foo', callback, 10, undefined, { softTtl: 5 }),
+			]);
+			expect(results).to.deep.equal(['stale', 'stale']);
+
+			await timeout(50);
+			expect(count).to.equals(1);
+			await expect(cache.get('foo')).resolves.equals('fresh');
+		});
+
+		it('should keep serving the stale value when refresh fails', async () => {
+			await cache.setEntry('foo', { value: 'stale', storedAt: Date.now() - 2000, staleAt: Date.now() - 1000 });
+
+			await expect(
+				cache.remember('foo', () => Promise.reject(new Error('upstream is down')), 10, undefined, { softTtl: 5 }),
+			).resolves.equals('stale');
+
+			await timeout(20);
+			await expect(cache.remember('foo', async () => 'fresh', 10, undefined, { softTtl: 5 })).resolves.equals('stale');
+		});
+	});
+
+	describe('remember with tags', () => {
+		const cache = InMemoryCache.init<string>({});
+		beforeEach(async () => {
+			await cache.clear();
+		});
+
+		it('should attach tags to the generated entry', async () => {
+			await expect(
+				cache.remember('foo', async () => 'bar', undefined, undefined, { tags: ['object:1'] }),
+			).resolves.equals('bar');
+			expect((await cache.getEntry('foo'))?.tags).to.deep.equal(['object:1']);
+
+			await cache.clearTags('object:1');
+			await expect(cache.get('foo')).resolves.toBeUndefined();
+		});
+	});
+
+	describe('remember with negative caching', () => {
+		const cache = InMemoryCache.init<string>({});
+		beforeEach(async () => {
+			await cache.clear();
+		});
+
+		it('should remember missing values for the requested time', async () => {
+			let count = 0;
+			const callback = async () => {
+				count++;
+
+				return undefined;
+			};
+
+			await expect(cache.remember('foo', callback, 10, undefined, { negativeTtl: 0.1 })).resolves.toBeUndefined();
+			await expect(cache.remember('foo', callback, 10, undefined, { negativeTtl: 0.1 })).resolves.toBeUndefined();
+			expect(count).to.equals(1);
+			expect(await cache.getEntry('foo')).to.include({ tombstone: true });
+
+			await timeout(150);
+			await expect(cache.remember('foo', callback, 10, undefined, { negativeTtl: 0.1 })).resolves.toBeUndefined();
+			expect(count).to.equals(2);
+		});
+
+		it('should hide tombstones from readers', async () => {
+			await cache.remember('foo', async () => undefined, 10, undefined, { negativeTtl: 10 });
+			await cache.set('bar', 'baz');
+
+			await expect(cache.get('foo')).resolves.toBeUndefined();
+			expect([...(await cache.getMany(['foo', 'bar']))]).to.deep.equal([['bar', 'baz']]);
+		});
+
+		it('should force readers of entries to tell tombstones apart', async () => {
+			await cache.remember('foo', async () => undefined, 10, undefined, { negativeTtl: 10 });
+			const entry = (await cache.getEntry('foo'))!;
+
+			expect(entry).to.not.have.property('value');
+			expectTypeOf(entry.value).toEqualTypeOf<string | undefined>();
+			if (!entry.tombstone) {
+				expectTypeOf(entry.value).toEqualTypeOf<string>();
+			}
+		});
+
+		it('should invoke the callback again once the tombstone is deleted', async () => {
+			await cache.remember('foo', async () => undefined, 10, undefined, { negativeTtl: 10 });
+			await cache.delete('foo');
+
+			await expect(cache.remember('foo', async () => 'found', 10, undefined, { negativeTtl: 10 })).resolves.equals(
+				'found',
+			);
+			await expect(cache.get('foo')).resolves.equals('found');
+		});
+	});
+
+	describe('remember with lock', () => {
+		const store = new kvjs();
+		// @ts-expect-error We're deliberately using a private constructor here.
+		const first = new InMemoryCache<string>({}, store) as InMemoryCache<string>;
+		// @ts-expect-error We're deliberately using a private constructor here.
+		const second = new InMemoryCache<string>({}, store) as InMemoryCache<string>;
+		beforeEach(() => {
+			store.flushall();
+		});
+
+		it('should invoke the callback only once for concurrent misses across instances', async () => {
+			let count = 0;
+			const callback = async () => {
+				count++;
+
+				return timeout(100, `value ${count}`);
+			};
+
+			const results = await Promise.all([
+				first.remember('foo', callback, undefined, undefined, { lock: true }),
+				second.remember('foo', callback, undefined, undefined, { lock: true }),
+			]);
+
+			expect(results).to.deep.equal(['value 1', 'value 1']);
+			expect(count).to.equals(1);
+			expect(store.keys('*')).to.have.members(['foo']);
+		});
+
+		it('should generate the value anyway when waiting for the lock times out', async () => {
+			await expect(second.acquireLock('__lock__:foo', 'someone else', 10)).resolves.equals(true);
+
+			await expect(
+				first.remember('foo', async () => 'generated', undefined, undefined, { lock: { wait: 0.2 } }),
+			).resolves.equals('generated');
+			await expect(first.get('foo')).resolves.equals('generated');
+		});
+
+		it('should release the lock when the callback throws', async () => {
+			const reason = new Error('rejected because reasons');
+
+			await expect(
+				first.remember('foo', () => Promise.reject(reason), undefined, undefined, { lock: true }),
+			).rejects.toThrow(reason);
+			expect(store.keys('*')).to.have.members([]);
+		});
+	});
+
+	describe('acquire', () => {
+		const store = new kvjs();
+		// @ts-expect-error We're deliberately using a private constructor here.
+		const cache = new InMemoryCache<string>({}, store) as InMemoryCache<string>;
+		beforeEach(() => {
+			store.flushall();
+		});
+
+		it('should acquire a free lock, and release it', async () => {
+			const lock = await cache.acquire('foo', 10);
+			expect(lock).to.be.an.instanceOf(Lock);
+			expect(store.get('__lock__:foo')).to.equals(lock?.token);
+
+			await expect(lock?.release()).resolves.equals(true);
+			await expect(lock?.release()).resolves.equals(false);
+			expect(store.keys('*')).to.have.members([]);
+		});
+
+		it('should extend a lock', async () => {
+			const lock = await cache.acquire('foo', 1);
+
+			await expect(lock?.extend(10)).resolves.equals(true);
+			expect(store.ttl('__lock__:foo')).to.be.greaterThan(1);
+		});
+
+		it('should not acquire a lock held by someone else', async () => {
+			await cache.acquireLock('__lock__:foo', 'someone else', 10);
+
+			await expect(cache.acquire('foo', 10)).resolves.toBeUndefined();
+		});
+
+		it('should wait for a lock to be released', async () => {
+			await cache.acquireLock('__lock__:foo', 'someone else', 0.1);
+
+			await expect(cache.acquire('foo', 10)).resolves.toBeUndefined();
+			expect(await cache.acquire('foo', 10, { wait: 1 })).to.be.an.instanceOf(Lock);
+		});
+	});
+
+	describe('withLock', () => {
+		const store = new kvjs();
+		// @ts-expect-error We're deliberately using a private constructor here.
+		const cache = new InMemoryCache<string>({}, store) as InMemoryCache<string>;
+		beforeEach(() => {
+			store.flushall();
+		});
+
+		it('should run the function while holding the lock, then release it', async () => {
+			await expect(
+				cache.withLock('foo', 10, async (lock) => {
+					expect(store.get('__lock__:foo')).to.equals(lock.token);
+
+					return 'result';
+				}),
+			).resolves.equals('result');
+			expect(store.keys('*')).to.have.members([]);
+		});
+
+		it('should release the lock when the function throws', async () => {
+			const reason = new Error('rejected because reasons');
+
+			await expect(cache.withLock('foo', 10, () => Promise.reject(reason))).rejects.toThrow(reason);
+			expect(store.keys('*')).to.have.members([]);
+		});
+
+		it('should throw if the lock cannot be acquired', async () => {
+			await cache.acquireLock('__lock__:foo', 'someone else', 10);
+
+			await expect(cache.withLock('foo', 10, () => expect.unreachable())).rejects.toThrow(LockError);
+		});
+	});
+
+	describe('getWithMeta', () => {
+		const cache = InMemoryCache.init<string>({});
+		beforeEach(async () => {
+			await cache.clear();
+		});
+
+		it('should return the value along with storage and expiration timestamps', async () => {
+			const before = Date.now();
+			await cache.set('foo', 'bar', 10);
+
+			const result = await cache.getWithMeta('foo');
+			expect(result?.value).equals('bar');
+			expect(result?.storedAt).to.be.at.least(before).and.at.most(Date.now());
+			expect(result?.expiresAt)
+				.to.be.at.least(before + 9_000)
+				.and.at.most(Date.now() + 10_000);
+		});
+
+		it('should not return an expiration timestamp for values that never expire', async () => {
+			await cache.set('foo', 'bar');
+
+			await expect(cache.getWithMeta('foo')).resolves.to.have.property('expiresAt', undefined);
+		});
+
+		it('should return undefined for missing values and tombstones', async () => {
+			await cache.remember('foo', async () => undefined, undefined, undefined, { negativeTtl: 10 });
+
+			await expect(cache.getWithMeta('foo')).resolves.toBeUndefined();
+			await expect(cache.getWithMeta('missing')).resolves.toBeUndefined();
+		});
+	});
+
+	describe('optional operations', () => {
+		/** Minimal backend, implementing only the operations every cache must support. */
+		class MinimalCache extends BaseCache<string> {
+			readonly #entries = new Map<string, CacheEntry<string>>();
+
+			public async getEntry(key: string): Promise<CacheEntry<string> | undefined> {
+				return this.#entries.get(key);
+			}
+
+			public async setEntry(key: string, entry: CacheEntry<string>): Promise<void> {
+				this.#entries.set(key, entry);
+			}
+
+			public async delete(key: string): Promise<void> {
+				this.#entries.delete(key);
+			}
+
+			public async *keys(): AsyncGenerator<string, void, undefined> {
+				yield* this.#entries.keys();
+			}
+
+			public async clear(): Promise<void> {
+				this.#entries.clear();
+			}
+
+			public async clearPattern(): Promise<void> {
+				this.#entries.clear();
+			}
+		}
+
+		it('should throw for operations not implemented by the backend', async () => {
+			const cache = new MinimalCache();
+			await cache.set('foo', 'bar');
+
+			await expect(cache.remember('foo', async () => 'baz')).resolves.equals('bar');
+			expect(cache.stats()).to.include({ hits: 0, sets: 0 });
+			await expect(cache.ttl('foo')).rejects.toThrow(UnsupportedOperationError);
+			await expect(cache.touch('foo', 10)).rejects.toThrow(UnsupportedOperationError);
+			await expect(cache.increment('counter')).rejects.toThrow(UnsupportedOperationError);
+			await expect(cache.clearTags('tag')).rejects.toThrow(UnsupportedOperationError);
+			await expect(cache.acquire('foo', 10)).rejects.toThrow(UnsupportedOperationError);
+			await expect(cache.remember('bar', async () => 'baz', undefined, undefined, { lock: true })).rejects.toThrow(
+				UnsupportedOperationError,
+			);
+		});
 	});
 });
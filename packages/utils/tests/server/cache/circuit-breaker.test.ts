@@ -0,0 +1,69 @@
+import { CircuitBreaker, CircuitOpenError, OperationTimeoutError } from '$lib/server/cache/circuit-breaker';
+import { timeout } from '$lib/utils/misc';
+import { describe, expect, it } from 'vitest';
+
+describe(CircuitBreaker.name, () => {
+	const reason = new Error('Redis is down');
+	const fail = () => Promise.reject(reason);
+
+	it('should execute operations while closed', async () => {
+		const breaker = new CircuitBreaker();
+
+		await expect(breaker.execute(async () => 42)).resolves.equals(42);
+		await expect(breaker.execute(fail)).rejects.toThrow(reason);
+		expect(breaker.state).equals('closed');
+	});
+
+	it('should open after consecutive failures, and short-circuit operations', async () => {
+		const breaker = new CircuitBreaker({ failureThreshold: 2 });
+		const events: string[] = [];
+		breaker.on('open', () => events.push('open'));
+
+		await expect(breaker.execute(fail)).rejects.toThrow(reason);
+		await expect(breaker.execute(async () => 42)).resolves.equals(42);
+		await expect(breaker.execute(fail)).rejects.toThrow(reason);
+		expect(breaker.state).equals('closed');
+		await expect(breaker.execute(fail)).rejects.toThrow(reason);
+		expect(breaker.state).equals('open');
+		expect(events).to.deep.equal(['open']);
+
+		await expect(breaker.execute(() => expect.unreachable())).rejects.toThrow(CircuitOpenError);
+	});
+
+	it('should close again after a successful trial operation', async () => {
+		const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 50 });
+		const events: string[] = [];
+		breaker.on('open', () => events.push('open'));
+		breaker.on('half-open', () => events.push('half-open'));
+		breaker.on('closed', () => events.push('closed'));
+
+		await expect(breaker.execute(fail)).rejects.toThrow(reason);
+		await timeout(60);
+
+		const trial = breaker.execute(() => timeout(20, 42));
+		expect(breaker.state).equals('half-open');
+		await expect(breaker.execute(() => expect.unreachable())).rejects.toThrow(CircuitOpenError);
+		await expect(trial).resolves.equals(42);
+		expect(breaker.state).equals('closed');
+		expect(events).to.deep.equal(['open', 'half-open', 'closed']);
+	});
+
+	it('should open again after a failed trial operation', async () => {
+		const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 50 });
+
+		await expect(breaker.execute(fail)).rejects.toThrow(reason);
+		await timeout(60);
+
+		await expect(breaker.execute(fail)).rejects.toThrow(reason);
+		expect(breaker.state).equals('open');
+		await expect(breaker.execute(() => expect.unreachable())).rejects.toThrow(CircuitOpenError);
+	});
+
+	it('should fail operations that time out', async () => {
+		const breaker = new CircuitBreaker({ failureThreshold: 1, operationTimeout: 20 });
+
+		await expect(breaker.execute(() => timeout(10, 42))).resolves.equals(42);
+		await expect(breaker.execute(() => timeout(100, 42))).rejects.toThrow(OperationTimeoutError);
+		expect(breaker.state).equals('open');
+	});
+});
@@ -0,0 +1,230 @@
+import {
+	binaryCodec,
+	CodecError,
+	compressedCodec,
+	encryptedCodec,
+	jsonCodec,
+	messagePackCodec,
+	resolveCodec,
+	richJsonCodec,
+	textCodec,
+	type Codec,
+	type Decoded,
+} from '$lib/server/cache/codecs';
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+/**
+ * Encode and decode a value.
+ *
+ * @param codec Codec.
+ * @param value Value.
+ */
+const roundTrip = <V, Out>(codec: Codec<V, Out>, value: V): Out => {
+	const encoded = codec.encode(value);
+
+	return codec.decode(typeof encoded === 'string' ? new TextEncoder().encode(encoded) : encoded);
+};
+
+describe('codecs', () => {
+	describe('resolveCodec', () => {
+		it('should resolve built-in codecs by name', () => {
+			expect(resolveCodec('json')).equals(jsonCodec);
+			expect(resolveCodec('rich-json')).equals(richJsonCodec);
+			expect(resolveCodec('msgpack')).equals(messagePackCodec);
+			expect(resolveCodec('text')).equals(textCodec);
+			expect(resolveCodec('binary')).equals(binaryCodec);
+		});
+
+		it('should return custom codecs as they are', () => {
+			const codec: Codec<number> = {
+				name: 'number',
+				contentType: 'text/plain',
+				encode: (value) => value.toString(),
+				decode: (data) => Number(new TextDecoder().decode(data)),
+			};
+
+			expect(resolveCodec(codec)).equals(codec);
+		});
+	});
+
+	describe('json', () => {
+		it('should round-trip JSON values', () => {
+			expect(roundTrip(jsonCodec, { foo: 'bar', list: [1, null, true] })).to.deep.equal({
+				foo: 'bar',
+				list: [1, null, true],
+			});
+		});
+
+		it('should apply JSON serialization', () => {
+			expect(roundTrip(jsonCodec, { date: new Date(0) })).to.deep.equal({ date: '1970-01-01T00:00:00.000Z' });
+		});
+
+		it('should throw a codec error on malformed data', () => {
+			expect(() => jsonCodec.decode(new TextEncoder().encode('{"foo":'))).toThrow(CodecError);
+		});
+	});
+
+	describe('rich-json', () => {
+		it('should round-trip values not supported by JSON', () => {
+			const value = {
+				date: new Date(0),
+				invalidDate: new Date(Number.NaN),
+				big: 2n ** 64n,
+				numbers: [Number.NaN, Infinity, -Infinity],
+				map: new Map<unknown, unknown>([
+					[1, 'one'],
+					[{ nested: true }, new Set(['a', 'b'])],
+				]),
+				bytes: new Uint8Array([0, 1, 255]),
+				rx: /fo+/gi,
+			};
+
+			const decoded = roundTrip(richJsonCodec, value) as typeof value;
+			expect(decoded).to.deep.equal(value);
+			expect(decoded.date).to.be.an.instanceOf(Date);
+			expect(decoded.map).to.be.an.instanceOf(Map);
+			expect(decoded.bytes).to.be.an.instanceOf(Uint8Array);
+		});
+
+		it('should not mistake objects with a `$type` property for tagged values', () => {
+			const value = { $type: 'Date', value: 0, nested: { $type: 'Set', value: [] } };
+
+			expect(roundTrip(richJsonCodec, value)).to.deep.equal(value);
+		});
+
+		it('should throw a codec error on malformed data', () => {
+			expect(() => richJsonCodec.decode(new TextEncoder().encode('{"$type":"BigInt","value":"nope"}'))).toThrow(
+				CodecError,
+			);
+		});
+	});
+
+	describe('msgpack', () => {
+		it('should round-trip values', () => {
+			const value = { date: new Date(0), big: 2n ** 63n, bytes: new Uint8Array([0, 1, 255]), list: ['a', 1] };
+
+			expect(roundTrip(messagePackCodec, value)).to.deep.equal(value);
+			expect(messagePackCodec.encode(value)).to.be.an.instanceOf(Uint8Array);
+		});
+
+		it('should throw a codec error on malformed data', () => {
+			expect(() => messagePackCodec.decode(new Uint8Array([0xc1]))).toThrow(CodecError);
+		});
+	});
+
+	describe('text', () => {
+		it('should round-trip strings', () => {
+			expect(roundTrip(textCodec, 'Hello, wörld!')).equals('Hello, wörld!');
+		});
+
+		it('should throw a codec error on invalid UTF-8 data', () => {
+			expect(() => textCodec.decode(new Uint8Array([0xff, 0xfe]))).toThrow(CodecError);
+		});
+	});
+
+	describe('binary', () => {
+		it('should return data as it is', () => {
+			const data = new Uint8Array([0, 1, 255]);
+
+			expect(roundTrip(binaryCodec, data)).equals(data);
+		});
+	});
+
+	describe('compressedCodec', () => {
+		const value = { html: '<p>Hello, world!</p>'.repeat(100) };
+
+		for (const algorithm of ['gzip', 'deflate', 'brotli'] as const) {
+			it(`should compress values above the threshold with ${algorithm}`, () => {
+				const codec = compressedCodec('json', { algorithm });
+				const encoded = codec.encode(value) as Uint8Array;
+
+				expect(encoded[0]).not.equals(0);
+				expect(encoded.byteLength).to.be.lessThan(JSON.stringify(value).length);
+				expect(roundTrip(codec, value)).to.deep.equal(value);
+			});
+		}
+
+		it('should leave values below the threshold uncompressed', () => {
+			const codec = compressedCodec('text', { threshold: 100 });
+			const encoded = codec.encode('short') as Uint8Array;
+
+			expect([...encoded]).to.deep.equal([0, ...new TextEncoder().encode('short')]);
+			expect(roundTrip(codec, 'short')).equals('short');
+		});
+
+		it('should decode data regardless of the algorithm it was compressed with', () => {
+			const gzip = compressedCodec('json', { algorithm: 'gzip' });
+			const brotli = compressedCodec('json', { algorithm: 'brotli', level: 5 });
+
+			expect(brotli.decode(gzip.encode(value) as Uint8Array)).to.deep.equal(value);
+		});
+
+		it('should keep the type of values read back by the wrapped codec', () => {
+			expectTypeOf(compressedCodec<{ date: Date }>('json')).toEqualTypeOf<Codec<{ date: Date }, { date: string }>>();
+			expectTypeOf(compressedCodec<{ date: Date }>('rich-json')).toEqualTypeOf<Codec<{ date: Date }>>();
+		});
+
+		it('should throw a codec error on malformed data', () => {
+			const codec = compressedCodec('json');
+
+			expect(() => codec.decode(new Uint8Array([]))).toThrow(CodecError);
+			expect(() => codec.decode(new Uint8Array([0x7f, 0x7b]))).toThrow(CodecError);
+			expect(() => codec.decode(new Uint8Array([0x01, 0x7b]))).toThrow(CodecError);
+		});
+	});
+
+	describe('encryptedCodec', () => {
+		const value = { user: 'alice', roles: ['admin'] };
+
+		it('should encrypt values', () => {
+			const codec = encryptedCodec('json', { secrets: 'secret' });
+			const encoded = codec.encode(value) as Uint8Array;
+
+			expect(Buffer.from(encoded).includes('alice')).equals(false);
+			expect(codec.encode(value)).not.to.deep.equal(encoded);
+			expect(roundTrip(codec, value)).to.deep.equal(value);
+		});
+
+		it('should decrypt data encrypted with previous keys', () => {
+			const previous = encryptedCodec('json', { secrets: 'old secret' });
+			const current = encryptedCodec('json', { secrets: ['new secret', 'old secret'] });
+			const encoded = current.encode(value) as Uint8Array;
+
+			expect(current.decode(previous.encode(value) as Uint8Array)).to.deep.equal(value);
+			expect(() => previous.decode(encoded)).toThrow(CodecError);
+			expect(encryptedCodec('json', { secrets: 'new secret' }).decode(encoded)).to.deep.equal(value);
+		});
+
+		it('should throw a codec error on tampered data', () => {
+			const codec = encryptedCodec('json', { secrets: 'secret' });
+			const encoded = codec.encode(value) as Uint8Array;
+			encoded[encoded.length - 1] ^= 0xff;
+
+			expect(() => codec.decode(encoded)).toThrow(CodecError);
+			expect(() => codec.decode(encoded.subarray(0, 10))).toThrow(CodecError);
+			expect(() => codec.decode(new Uint8Array([]))).toThrow(CodecError);
+		});
+
+		it('should bind data to the context it was encoded with', () => {
+			const codec = encryptedCodec(compressedCodec('json'), { secrets: 'secret' });
+			const encoded = codec.encode(value, 'foo') as Uint8Array;
+
+			expect(codec.decode(encoded, 'foo')).to.deep.equal(value);
+			expect(() => codec.decode(encoded, 'bar')).toThrow(CodecError);
+			expect(() => codec.decode(encoded)).toThrow(CodecError);
+			expect(() => codec.decode(codec.encode(value) as Uint8Array, 'foo')).toThrow(CodecError);
+		});
+
+		it('should keep the type of values read back by the wrapped codec', () => {
+			const codec = encryptedCodec(compressedCodec<{ date: Date }>('json'), { secrets: 'secret' });
+
+			expectTypeOf(codec).toEqualTypeOf<Codec<{ date: Date }, { date: string }>>();
+			expectTypeOf<Decoded<{ date: Date }, typeof codec>>().toEqualTypeOf<{ date: string }>();
+			expect(roundTrip(codec, { date: new Date(0) })).to.deep.equal({ date: '1970-01-01T00:00:00.000Z' });
+		});
+
+		it('should require at least a secret', () => {
+			expect(() => encryptedCodec('json', { secrets: [] })).toThrow(TypeError);
+		});
+	});
+});
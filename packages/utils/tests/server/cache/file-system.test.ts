@@ -0,0 +1,393 @@
+import { UnsupportedOperationError } from '$lib/server/cache/base';
+import { compressedCodec, encryptedCodec, type Codec } from '$lib/server/cache/codecs';
+import { FileSystemCache } from '$lib/server/cache/file-system';
+import { withTmpDir } from '$lib/server/utils';
+import { asyncIterableToArray } from '$lib/utils/collections';
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+import { it as base, describe, expect } from 'vitest';
+
+/**
+ * List all files in a directory, recursively.
+ *
+ * @param directory Directory.
+ */
+const listFiles = async (directory: string): Promise<string[]> =>
+	(await readdir(directory, { recursive: true, withFileTypes: true }))
+		.filter((dirent) => dirent.isFile())
+		.map((dirent) => relative(directory, join(dirent.parentPath, dirent.name)));
+
+/** Run each test with a temporary cache directory, removed afterwards. */
+const it = base.extend<{ directory: string }>({
+	// eslint-disable-next-line no-empty-pattern
+	directory: async ({}, use) => withTmpDir('fs-cache-', use),
+});
+
+describe(FileSystemCache.name, () => {
+	it('should create a file system cache', ({ directory }) => {
+		expect(FileSystemCache.init({ directory })).to.be.an.instanceOf(FileSystemCache);
+	});
+
+	describe('child', () => {
+		it('should create key-prefixed distinct caches in subdirectories', async ({ directory }) => {
+			const base = FileSystemCache.init<number>({ directory });
+
+			const foo = base.child('foo');
+			expect(foo).to.be.an.instanceOf(FileSystemCache);
+			await expect(foo.set('answer', 42)).resolves.toBeUndefined();
+			await expect(base.get('answer')).resolves.toBeUndefined();
+			await expect(foo.get('answer')).resolves.equals(42);
+			await expect(base.get('foo/answer')).resolves.equals(42);
+			await expect(listFiles(directory)).resolves.to.have.members(['foo/answer.entry']);
+
+			const bar = foo.child('bar');
+			await expect(bar.set('answer', 17)).resolves.toBeUndefined();
+			await expect(foo.get('bar/answer')).resolves.equals(17);
+			await expect(listFiles(directory)).resolves.to.have.members(['foo/answer.entry', 'foo/bar/answer.entry']);
+		});
+	});
+
+	describe('set', () => {
+		it('should store values with metadata, atomically', async ({ directory }) => {
+			const cache = FileSystemCache.init<{ foo: string }>({ directory, keyPrefix: 'foo' });
+
+			await expect(cache.set('bar', { foo: 'bar' }, undefined, undefined, ['tag'])).resolves.toBeUndefined();
+			await expect(listFiles(directory)).resolves.to.have.members(['foo/bar.entry', 'foo/__tag__%3Atag/bar.entry']);
+
+			const [meta, payload] = (await readFile(join(directory, 'foo/bar.entry'), 'utf-8')).split('\n');
+			expect(JSON.parse(meta)).to.have.keys(['storedAt', 'tags']);
+			expect(JSON.parse(payload)).to.deep.equal({ foo: 'bar' });
+		});
+
+		it('should store expiration time, with jitter', async ({ directory }) => {
+			const cache = FileSystemCache.init<string>({ directory });
+			const before = Date.now();
+
+			await expect(cache.set('bar', 'baz', 3, (ttl) => ttl / 2)).resolves.toBeUndefined();
+
+			const meta = JSON.parse((await readFile(join(directory, 'bar.entry'), 'utf-8')).split('\n')[0]);
+			expect(meta.expiresAt)
+				.to.be.at.least(before + 1500)
+				.and.at.most(Date.now() + 1500);
+		});
+
+		it('should encode keys as safe file names', async ({ directory }) => {
+			const cache = FileSystemCache.init<string>({ directory: join(directory, 'cache') });
+
+			await expect(cache.set('../../escape', 'nope')).resolves.toBeUndefined();
+			await expect(cache.set('a:b*c?.d', 'weird')).resolves.toBeUndefined();
+			await expect(listFiles(directory)).resolves.to.have.members([
+				'cache/%2E%2E/%2E%2E/escape.entry',
+				'cache/a%3Ab%2Ac%3F%2Ed.entry',
+			]);
+			await expect(cache.get('../../escape')).resolves.equals('nope');
+			await expect(cache.get('a:b*c?.d')).resolves.equals('weird');
+		});
+	});
+
+	describe('get', () => {
+		it('should return undefined for missing keys', async ({ directory }) => {
+			const cache = FileSystemCache.init<string>({ directory });
+
+			await expect(cache.get('missing')).resolves.toBeUndefined();
+		});
+
+		it('should return undefined and delete expired entries', async ({ directory }) => {
+			const cache = FileSystemCache.init<string>({ directory });
+			await writeFile(join(directory, 'bar.entry'), `${JSON.stringify({ expiresAt: Date.now() - 1 })}\n"baz"`);
+
+			await expect(cache.get('bar')).resolves.toBeUndefined();
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			await expect(listFiles(directory)).resolves.to.have.members([]);
+		});
+
+		it('should return undefined for malformed data', async ({ directory }) => {
+			const cache = FileSystemCache.init<string>({ directory });
+			await writeFile(join(directory, 'bar.entry'), '{}\n{"foo":');
+
+			await expect(cache.get('bar')).resolves.toBeUndefined();
+		});
+
+		it('should transparently read compressed values', async ({ directory }) => {
+			const cache = FileSystemCache.init<string, Codec<string>>({
+				directory,
+				codec: compressedCodec('text', { threshold: 10 }),
+			}).child('foo');
+
+			await cache.setMany([
+				['short', 'hello'],
+				['long', 'hello'.repeat(100)],
+			]);
+			await expect(cache.get('short')).resolves.equals('hello');
+			await expect(cache.get('long')).resolves.equals('hello'.repeat(100));
+			await expect(asyncIterableToArray(cache.keys())).resolves.to.have.members(['short', 'long']);
+			expect((await readFile(join(directory, 'foo/long.entry'))).byteLength).to.be.lessThan(100);
+		});
+
+		it('should treat encrypted values moved to a different key as missing', async ({ directory }) => {
+			const cache = FileSystemCache.init<string, Codec<string>>({
+				directory,
+				codec: encryptedCodec('text', { secrets: 'secret' }),
+			}).child('foo');
+			await cache.set('bar', 'one');
+			await cache.set('baz', 'two');
+			await expect(cache.get('bar')).resolves.equals('one');
+
+			const bar = await readFile(join(directory, 'foo/bar.entry'));
+			await writeFile(join(directory, 'foo/bar.entry'), await readFile(join(directory, 'foo/baz.entry')));
+			await writeFile(join(directory, 'foo/baz.entry'), bar);
+
+			await expect(cache.get('bar')).resolves.toBeUndefined();
+			await expect(cache.get('baz')).resolves.toBeUndefined();
+		});
+
+		it('should decode values with the requested codec', async ({ directory }) => {
+			const json = FileSystemCache.init<{ date: Date }>({ directory });
+			const rich = FileSystemCache.init<{ date: Date }, 'rich-json'>({ directory, codec: 'rich-json' });
+
+			await rich.set('bar', { date: new Date(0) });
+			await expect(rich.get('bar')).resolves.to.deep.equal({ date: new Date(0) });
+
+			await json.set('bar', { date: new Date(0) });
+			await expect(json.get('bar')).resolves.to.deep.equal({ date: '1970-01-01T00:00:00.000Z' });
+		});
+	});
+
+	describe('getEntry', () => {
+		it('should read the entry along with its metadata', async ({ directory }) => {
+			const cache = FileSystemCache.init<string>({ directory });
+			await cache.setEntry('bar', { value: 'baz', storedAt: 1, staleAt: 2, tags: ['tag'] });
+
+			await expect(cache.getEntry('bar')).resolves.to.deep.equal({
+				value: 'baz',
+				storedAt: 1,
+				staleAt: 2,
+				tags: ['tag'],
+			});
+		});
+	});
+
+	describe('ttl', () => {
+		it('should return the remaining TTL in seconds', async ({ directory }) => {
+			const cache = FileSystemCache.init<string>({ directory });
+			await cache.set('bar', 'baz', 3);
+			await cache.set('baz', 'qux');
+
+			expect(await cache.ttl('bar'))
+				.to.be.greaterThan(2)
+				.and.lessThanOrEqual(3);
+			await expect(cache.ttl('baz')).resolves.equals(Infinity);
+			await expect(cache.ttl('missing')).resolves.toBeUndefined();
+		});
+	});
+
+	describe('touch', () => {
+		it('should rewrite expiration of the entry and of its tag indexes, preserving the value', async ({ directory }) => {
+			const cache = FileSystemCache.init<string>({ directory });
+			await cache.set('bar', 'baz', 1, undefined, ['tag']);
+			const before = Date.now();
+
+			await expect(cache.touch('bar', 10)).resolves.equals(true);
+			await expect(cache.ttl('bar')).resolves.to.be.greaterThan(9);
+			await expect(cache.get('bar')).resolves.equals('baz');
+			const index = JSON.parse(await readFile(join(directory, '__tag__%3Atag/bar.entry'), 'utf-8'));
+			expect(index.expiresAt).to.be.at.least(before + 10_000);
+		});
+
+		it('should make entries never expire if no TTL is given', async ({ directory }) => {
+			const cache = FileSystemCache.init<string>({ directory });
+			await cache.set('bar', 'baz', 1);
+
+			await expect(cache.expire('bar')).resolves.equals(true);
+			await expect(cache.ttl('bar')).resolves.equals(Infinity);
+		});
+
+		it('should return false for missing or expired keys', async ({ directory }) => {
+			const cache = FileSystemCache.init<string>({ directory });
+			await writeFile(join(directory, 'bar.entry'), `${JSON.stringify({ expiresAt: Date.now() - 1 })}\n"baz"`);
+
+			await expect(cache.touch('missing', 10)).resolves.equals(false);
+			await expect(cache.touch('bar', 10)).resolves.equals(false);
+		});
+	});
+
+	describe('increment', () => {
+		it('should not support counters', async ({ directory }) => {
+			const cache = FileSystemCache.init<string>({ directory });
+
+			await expect(cache.increment('bar')).rejects.toThrow(UnsupportedOperationError);
+			await expect(cache.decrement('bar')).rejects.toThrow(UnsupportedOperationError);
+		});
+	});
+
+	describe('delete', () => {
+		it('should delete the requested key and ignore missing ones', async ({ directory }) => {
+			const cache = FileSystemCache.init<string>({ directory });
+			await cache.set('bar', 'baz');
+
+			await expect(cache.delete('bar')).resolves.toBeUndefined();
+			await expect(cache.delete('missing')).resolves.toBeUndefined();
+			await expect(listFiles(directory)).resolves.to.have.members([]);
+		});
+	});
+
+	describe('keys', () => {
+		const cache = (directory: string) => FileSystemCache.init<string>({ directory, keyPrefix: 'foo' });
+
+		it.beforeEach(async ({ directory }) => {
+			const base = FileSystemCache.init<string>({ directory });
+			await base.setMany([
+				['bar', 'hello'],
+				['foo/bar', 'baz'],
+				['foo/baz:1', 'one baz'],
+				['foo/baz:2', 'two bazs'],
+				['foo/qux/1', 'nested'],
+			]);
+		});
+
+		it('should list all the keys in the cache respecting the base prefix', async ({ directory }) => {
+			await expect(asyncIterableToArray(cache(directory).keys())).resolves.to.have.members([
+				'bar',
+				'baz:1',
+				'baz:2',
+				'qux/1',
+			]);
+		});
+
+		it('should list all the keys in the cache that have the requested prefix', async ({ directory }) => {
+			await expect(asyncIterableToArray(cache(directory).keys('baz:'))).resolves.to.have.members(['baz:1', 'baz:2']);
+		});
+
+		it('should return nothing if the directory does not exist', async ({ directory }) => {
+			await expect(asyncIterableToArray(cache(directory).child('missing').keys())).resolves.to.have.members([]);
+		});
+
+		it('should not list nor clear keys holding locks and tag indexes', async ({ directory }) => {
+			await cache(directory).set('bar', 'baz', undefined, undefined, ['tag']);
+			const lock = await cache(directory).acquire('baz:1', 10);
+
+			await expect(asyncIterableToArray(cache(directory).keys())).resolves.to.have.members([
+				'bar',
+				'baz:1',
+				'baz:2',
+				'qux/1',
+			]);
+			await cache(directory).clearPattern('*');
+			await expect(asyncIterableToArray(cache(directory).keys())).resolves.to.have.members([]);
+			await expect(lock?.extend(10)).resolves.equals(true);
+			await cache(directory).set('bar', 'baz');
+			await cache(directory).clearTags('tag');
+			await expect(asyncIterableToArray(cache(directory).keys())).resolves.to.have.members([]);
+		});
+	});
+
+	describe('clear', () => {
+		it.beforeEach(async ({ directory }) => {
+			const base = FileSystemCache.init<string>({ directory });
+			await base.setMany([
+				['bar', 'hello'],
+				['foo/bar', 'baz'],
+				['foo/baz:1', 'one baz'],
+				['foo/baz:2', 'two bazs'],
+			]);
+		});
+
+		it('should delete all keys in the cache', async ({ directory }) => {
+			await expect(FileSystemCache.init({ directory, keyPrefix: 'foo' }).clear()).resolves.toBeUndefined();
+			await expect(listFiles(directory)).resolves.to.have.members(['bar.entry']);
+		});
+
+		it('should not delete the directory nor files not owned by the cache', async ({ directory }) => {
+			await writeFile(join(directory, 'foo', 'README.md'), 'Hello!');
+
+			await expect(FileSystemCache.init({ directory, keyPrefix: 'foo' }).clear()).resolves.toBeUndefined();
+			await expect(FileSystemCache.init({ directory }).clear()).resolves.toBeUndefined();
+			await expect(listFiles(directory)).resolves.to.have.members(['foo/README.md']);
+		});
+
+		it('should delete all keys in the cache with a requested prefix', async ({ directory }) => {
+			await expect(FileSystemCache.init({ directory, keyPrefix: 'foo' }).clear('baz:')).resolves.toBeUndefined();
+			await expect(listFiles(directory)).resolves.to.have.members(['bar.entry', 'foo/bar.entry']);
+		});
+	});
+
+	describe('clearPattern', () => {
+		it('should delete all keys matching the pattern', async ({ directory }) => {
+			const cache = FileSystemCache.init<string>({ directory });
+			await cache.setMany([
+				['foo:1', 'one'],
+				['foo:2', 'two'],
+				['bar:1', 'three'],
+				['foo.1', 'four'],
+			]);
+
+			await expect(cache.clearPattern('foo:*')).resolves.toBeUndefined();
+			await expect(asyncIterableToArray(cache.keys())).resolves.to.have.members(['bar:1', 'foo.1']);
+		});
+	});
+
+	describe('clearTags', () => {
+		it('should delete all keys carrying any of the tags, along with their indexes', async ({ directory }) => {
+			const cache = FileSystemCache.init<string>({ directory });
+			await cache.set('a/1', 'one', undefined, undefined, ['foo']);
+			await cache.set('b', 'two', undefined, undefined, ['bar']);
+			await cache.set('c', 'three', undefined, undefined, ['baz']);
+			await cache.set('d', 'four');
+
+			await expect(cache.clearTags('foo', 'bar')).resolves.toBeUndefined();
+			await expect(asyncIterableToArray(cache.keys())).resolves.to.have.members(['c', 'd']);
+			await expect(listFiles(directory)).resolves.to.have.members(['__tag__%3Abaz/c.entry', 'c.entry', 'd.entry']);
+		});
+	});
+
+	describe('acquireLock', () => {
+		it('should acquire a free lock', async ({ directory }) => {
+			const cache = FileSystemCache.init<string>({ directory });
+
+			await expect(cache.acquireLock('lock', 'my-token', 3)).resolves.equals(true);
+			await expect(cache.acquireLock('lock', 'other-token', 3)).resolves.equals(false);
+		});
+
+		it('should take over an expired lock', async ({ directory }) => {
+			const cache = FileSystemCache.init<string>({ directory });
+			await writeFile(join(directory, 'lock.entry'), `${JSON.stringify({ expiresAt: Date.now() - 1 })}\nother-token`);
+
+			await expect(cache.acquireLock('lock', 'my-token', 3)).resolves.equals(true);
+			await expect(cache.releaseLock('lock', 'other-token')).resolves.equals(false);
+			await expect(cache.releaseLock('lock', 'my-token')).resolves.equals(true);
+		});
+	});
+
+	describe('releaseLock', () => {
+		it('should only release a lock held by the owner', async ({ directory }) => {
+			const cache = FileSystemCache.init<string>({ directory });
+			await cache.acquireLock('lock', 'my-token', 3);
+
+			await expect(cache.releaseLock('lock', 'other-token')).resolves.equals(false);
+			await expect(cache.releaseLock('lock', 'my-token')).resolves.equals(true);
+			await expect(cache.releaseLock('lock', 'my-token')).resolves.equals(false);
+			await expect(listFiles(directory)).resolves.to.have.members([]);
+		});
+	});
+
+	describe('extendLock', () => {
+		it('should only extend a lock held by the owner', async ({ directory }) => {
+			const cache = FileSystemCache.init<string>({ directory });
+			await cache.acquireLock('lock', 'my-token', 1);
+			const before = Date.now();
+
+			await expect(cache.extendLock('lock', 'other-token', 10)).resolves.equals(false);
+			await expect(cache.extendLock('lock', 'my-token', 10)).resolves.equals(true);
+
+			const meta = JSON.parse((await readFile(join(directory, 'lock.entry'), 'utf-8')).split('\n')[0]);
+			expect(meta.expiresAt).to.be.at.least(before + 10_000);
+		});
+
+		it('should not extend an expired lock', async ({ directory }) => {
+			const cache = FileSystemCache.init<string>({ directory });
+			await writeFile(join(directory, 'lock.entry'), `${JSON.stringify({ expiresAt: Date.now() - 1 })}\nmy-token`);
+
+			await expect(cache.extendLock('lock', 'my-token', 10)).resolves.equals(false);
+		});
+	});
+});
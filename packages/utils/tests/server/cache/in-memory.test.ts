@@ -1,4 +1,6 @@
 import { InMemoryCache } from '$lib/server/cache/in-memory';
+import { asyncIterableToArray } from '$lib/utils/collections';
+import { timeout } from '$lib/utils/misc';
 import kvjs from '@heyputer/kv.js';
 import { beforeEach, describe, expect, it } from 'vitest';
 
@@ -73,7 +75,7 @@ describe(InMemoryCache.name, () => {
 			expect(store.keys('foo:*')).to.have.members(['foo:bar']);
 			expect(store.keys('*')).to.have.members(['foo:bar', 'bar', 'baz']);
 			expect(store.get('bar')).to.equals('hello');
-			expect(store.get('foo:bar')).to.equals('foo bar!');
+			expect(store.get('foo:bar')).to.include({ value: 'foo bar!' });
 		});
 
 		it('should create a new value respecting prefix', async () => {
@@ -81,7 +83,7 @@ describe(InMemoryCache.name, () => {
 			expect(store.keys('foo:*')).to.have.members(['foo:bar', 'foo:baz']);
 			expect(store.keys('*')).to.have.members(['foo:bar', 'foo:baz', 'bar', 'baz']);
 			expect(store.get('baz')).to.equals('world!');
-			expect(store.get('foo:baz')).to.equals('foo bar!');
+			expect(store.get('foo:baz')).to.include({ value: 'foo bar!' });
 			expect(store.ttl('foo:baz')).to.equals(-1);
 		});
 
@@ -90,11 +92,206 @@ describe(InMemoryCache.name, () => {
 			expect(store.keys('foo:*')).to.have.members(['foo:bar', 'foo:baz']);
 			expect(store.keys('*')).to.have.members(['foo:bar', 'foo:baz', 'bar', 'baz']);
 			expect(store.get('baz')).to.equals('world!');
-			expect(store.get('foo:baz')).to.equals('foo bar!');
+			expect(store.get('foo:baz')).to.include({ value: 'foo bar!' });
 			expect(store.ttl('foo:baz')).to.be.greaterThan(0).and.lessThanOrEqual(3);
 		});
 	});
 
+	describe('getEntry', () => {
+		const store = new kvjs();
+		// @ts-expect-error We're deliberately using a private constructor here.
+		const cache = new InMemoryCache<unknown>({ keyPrefix: 'foo:' }, store);
+
+		beforeEach(() => {
+			store.flushall();
+			store.set('foo:bar', 'baz');
+		});
+
+		it('should return the value along with its metadata', async () => {
+			await (<InMemoryCache<unknown>>cache).setEntry('baz', {
+				value: 'foo bar!',
+				storedAt: 1000,
+				staleAt: 2000,
+				tags: ['object:1'],
+			});
+			await expect((<InMemoryCache<unknown>>cache).getEntry('baz')).resolves.deep.equals({
+				value: 'foo bar!',
+				storedAt: 1000,
+				staleAt: 2000,
+				tags: ['object:1'],
+			});
+		});
+
+		it('should return values stored without metadata', async () => {
+			await expect((<InMemoryCache<unknown>>cache).getEntry('bar')).resolves.deep.equals({ value: 'baz' });
+		});
+
+		it('should return undefined when the key is missing', async () => {
+			await expect((<InMemoryCache<unknown>>cache).getEntry('baz')).resolves.toBeUndefined();
+		});
+	});
+
+	describe('ttl', () => {
+		const store = new kvjs();
+		// @ts-expect-error We're deliberately using a private constructor here.
+		const cache = new InMemoryCache<unknown>({ keyPrefix: 'foo:' }, store) as InMemoryCache<unknown>;
+
+		beforeEach(() => {
+			store.flushall();
+		});
+
+		it('should return the remaining TTL in seconds', async () => {
+			await cache.set('bar', 'baz', 3);
+
+			expect(await cache.ttl('bar'))
+				.to.be.greaterThan(2)
+				.and.lessThanOrEqual(3);
+		});
+
+		it('should return Infinity for entries that never expire, and undefined for missing ones', async () => {
+			await cache.set('bar', 'baz');
+
+			await expect(cache.ttl('bar')).resolves.equals(Infinity);
+			await expect(cache.ttl('missing')).resolves.toBeUndefined();
+		});
+	});
+
+	describe('touch', () => {
+		const store = new kvjs();
+		// @ts-expect-error We're deliberately using a private constructor here.
+		const cache = new InMemoryCache<unknown>({ keyPrefix: 'foo:', defaultTTL: 60 }, store) as InMemoryCache<unknown>;
+
+		beforeEach(() => {
+			store.flushall();
+		});
+
+		it('should update the expiration without rewriting the value, along with tag indexes', async () => {
+			await cache.set('bar', 'baz', 1, undefined, ['tag']);
+
+			await expect(cache.touch('bar', 10)).resolves.equals(true);
+			expect(store.ttl('foo:bar')).to.be.greaterThan(5).and.lessThanOrEqual(10);
+			expect(store.ttl('foo:__tag__:tag')).to.be.greaterThan(5).and.lessThanOrEqual(10);
+			await expect(cache.get('bar')).resolves.equals('baz');
+		});
+
+		it('should apply default TTL and jitter', async () => {
+			await cache.set('bar', 'baz', 1);
+
+			await expect(cache.expire('bar', undefined, (ttl) => ttl / 2)).resolves.equals(true);
+			expect(store.ttl('foo:bar')).to.be.greaterThan(25).and.lessThanOrEqual(30);
+		});
+
+		it('should return false for missing keys', async () => {
+			await expect(cache.touch('missing', 10)).resolves.equals(false);
+			expect(store.keys('*')).to.have.members([]);
+		});
+	});
+
+	describe('increment', () => {
+		const store = new kvjs();
+		// @ts-expect-error We're deliberately using a private constructor here.
+		const cache = new InMemoryCache<unknown>({ keyPrefix: 'foo:' }, store) as InMemoryCache<unknown>;
+
+		beforeEach(() => {
+			store.flushall();
+		});
+
+		it('should create counters, setting TTL on first write only', async () => {
+			await expect(cache.increment('bar', 1, 10)).resolves.equals(1);
+			await cache.touch('bar', 3);
+			await expect(cache.increment('bar', 5, 60)).resolves.equals(6);
+			await expect(cache.decrement('bar', undefined, 60)).resolves.equals(5);
+			await expect(cache.get('bar')).resolves.equals(5);
+			expect(store.ttl('foo:bar')).to.be.greaterThan(0).and.lessThanOrEqual(3);
+		});
+
+		it('should throw when the value is not an integer', async () => {
+			await cache.set('bar', 'baz');
+
+			await expect(cache.increment('bar')).rejects.toThrow(TypeError);
+			await expect(cache.get('bar')).resolves.equals('baz');
+		});
+
+		it('should apply increments atomically', async () => {
+			await Promise.all(Array.from({ length: 10 }, () => cache.increment('bar')));
+
+			await expect(cache.get('bar')).resolves.equals(10);
+		});
+	});
+
+	describe('getMany', () => {
+		const store = new kvjs();
+		// @ts-expect-error We're deliberately using a private constructor here.
+		const cache = new InMemoryCache<unknown>({ keyPrefix: 'foo:' }, store) as InMemoryCache<unknown>;
+
+		beforeEach(() => {
+			store.flushall();
+			store.set('bar', 'hello');
+			store.set('foo:bar', 'baz');
+			store.set('foo:baz', 'qux');
+		});
+
+		it('should return the values of existing keys respecting prefix', async () => {
+			const values = await cache.getMany(['baz', 'missing', 'bar']);
+
+			expect([...values]).to.deep.equal([
+				['baz', 'qux'],
+				['bar', 'baz'],
+			]);
+		});
+	});
+
+	describe('setMany', () => {
+		const store = new kvjs();
+		// @ts-expect-error We're deliberately using a private constructor here.
+		const cache = new InMemoryCache<unknown>({ keyPrefix: 'foo:' }, store) as InMemoryCache<unknown>;
+
+		beforeEach(() => {
+			store.flushall();
+			store.set('bar', 'hello');
+		});
+
+		it('should set all values respecting prefix with the requested TTL and tags', async () => {
+			await expect(
+				cache.setMany(
+					[
+						['bar', 'baz'],
+						['baz', 'qux'],
+					],
+					3,
+					undefined,
+					['news'],
+				),
+			).resolves.toBeUndefined();
+			expect(store.keys('*')).to.have.members(['bar', 'foo:bar', 'foo:baz', 'foo:__tag__:news']);
+			expect(store.get('foo:bar')).to.include({ value: 'baz' });
+			expect(store.get('foo:baz')).to.include({ value: 'qux' });
+			expect(store.ttl('foo:baz')).to.be.greaterThan(0).and.lessThanOrEqual(3);
+
+			await cache.clearTags('news');
+			expect(store.keys('*')).to.have.members(['bar']);
+		});
+	});
+
+	describe('deleteMany', () => {
+		const store = new kvjs();
+		// @ts-expect-error We're deliberately using a private constructor here.
+		const cache = new InMemoryCache<unknown>({ keyPrefix: 'foo:' }, store) as InMemoryCache<unknown>;
+
+		beforeEach(() => {
+			store.flushall();
+			store.set('bar', 'hello');
+			store.set('foo:bar', 'baz');
+			store.set('foo:baz', 'qux');
+			store.set('foo:qux', 'quux');
+		});
+
+		it('should delete all requested keys respecting prefix', async () => {
+			await expect(cache.deleteMany(['bar', 'baz', 'missing'])).resolves.toBeUndefined();
+			expect(store.keys('*')).to.have.members(['bar', 'foo:qux']);
+		});
+	});
+
 	describe('delete', () => {
 		const store = new kvjs();
 		// @ts-expect-error We're deliberately using a private constructor here.
@@ -156,6 +353,28 @@ describe(InMemoryCache.name, () => {
 
 			expect(keys).to.have.members(['baz:1', 'baz:2', 'baz:3']);
 		});
+
+		it('should not list keys holding locks and tag indexes', async () => {
+			store.flushall();
+			await cache.set('bar', 'baz', undefined, undefined, ['tag']);
+			const lock = await cache.acquire('baz', 10);
+			await cache.set('qux:__lock__:1', 'not a lock');
+			await cache.child('child:').set('qux', 'quux', undefined, undefined, ['tag']);
+
+			// Internal keys of children are only hidden by the children themselves.
+			await expect(asyncIterableToArray(cache.child('child:').keys())).resolves.to.have.members(['qux']);
+			await expect(asyncIterableToArray(cache.keys())).resolves.to.have.members([
+				'bar',
+				'qux:__lock__:1',
+				'child:qux',
+				'child:__tag__:tag',
+			]);
+
+			await cache.clearPattern('*');
+			await expect(asyncIterableToArray(cache.keys())).resolves.to.have.members([]);
+			await expect(lock?.extend(10)).resolves.equals(true);
+			expect(store.keys('foo:*')).to.have.members(['foo:__lock__:baz', 'foo:__tag__:tag']);
+		});
 	});
 
 	describe('clear', () => {
@@ -231,4 +450,261 @@ describe(InMemoryCache.name, () => {
 			expect(store.keys('*')).to.have.members(['bar', 'baz', 'foo:bar', 'foo:baz:1', 'foo:baz:2', 'foo:baz:3']);
 		});
 	});
+
+	describe('clearTags', () => {
+		const store = new kvjs();
+		// @ts-expect-error We're deliberately using a private constructor here.
+		const cache = new InMemoryCache<unknown>({ keyPrefix: 'foo:' }, store) as InMemoryCache<unknown>;
+
+		beforeEach(async () => {
+			store.flushall();
+			store.set('bar', 'hello');
+			await cache.set('bar', 'baz', undefined, undefined, ['object:1', 'folder:news']);
+			await cache.set('baz', 'qux', 3, undefined, ['object:2', 'folder:news']);
+			await cache.set('qux', 'quux', undefined, undefined, ['object:2']);
+			await cache.child('child:').set('bar', 'baz', undefined, undefined, ['object:1']);
+		});
+
+		it('should delete all keys carrying a tag, respecting prefix', async () => {
+			await expect(cache.clearTags('folder:news')).resolves.toBeUndefined();
+			await expect(cache.get('bar')).resolves.toBeUndefined();
+			await expect(cache.get('baz')).resolves.toBeUndefined();
+			await expect(cache.get('qux')).resolves.equals('quux');
+			await expect(cache.child('child:').get('bar')).resolves.equals('baz');
+			expect(store.get('bar')).to.equals('hello');
+		});
+
+		it('should delete all keys carrying any of the tags', async () => {
+			await expect(cache.clearTags('object:1', 'object:2')).resolves.toBeUndefined();
+			expect(store.keys('foo:*')).to.have.members([
+				'foo:child:bar',
+				'foo:child:__tag__:object:1',
+				'foo:__tag__:folder:news',
+			]);
+		});
+
+		it('should delete keys carrying a tag in a child cache only', async () => {
+			await expect(cache.child('child:').clearTags('object:1')).resolves.toBeUndefined();
+			await expect(cache.child('child:').get('bar')).resolves.toBeUndefined();
+			await expect(cache.get('bar')).resolves.equals('baz');
+		});
+
+		it('should not expire a tag index before the entries it refers to', async () => {
+			expect(store.ttl('foo:__tag__:object:2')).to.equals(-1);
+			expect(store.ttl('foo:__tag__:object:1')).to.equals(-1);
+
+			await cache.set('quux', 'corge', 10, undefined, ['object:3']);
+			await cache.set('corge', 'grault', 3, undefined, ['object:3']);
+			expect(store.ttl('foo:__tag__:object:3')).to.be.greaterThan(3).and.lessThanOrEqual(10);
+		});
+
+		it('should silently ignore request to clear an inexistent tag', async () => {
+			await expect(cache.clearTags('non-existent')).resolves.toBeUndefined();
+			await expect(cache.get('bar')).resolves.equals('baz');
+		});
+	});
+
+	describe('acquireLock', () => {
+		const store = new kvjs();
+		// @ts-expect-error We're deliberately using a private constructor here.
+		const cache = new InMemoryCache<unknown>({ keyPrefix: 'foo:' }, store);
+
+		beforeEach(() => {
+			store.flushall();
+			store.set('foo:held', 'other-token');
+		});
+
+		it('should acquire a free lock respecting prefix', async () => {
+			await expect((<InMemoryCache<unknown>>cache).acquireLock('bar', 'my-token', 3)).resolves.equals(true);
+			expect(store.get('foo:bar')).to.equals('my-token');
+			expect(store.ttl('foo:bar')).to.be.greaterThan(0).and.lessThanOrEqual(3);
+		});
+
+		it('should not acquire a lock held by someone else', async () => {
+			await expect((<InMemoryCache<unknown>>cache).acquireLock('held', 'my-token', 3)).resolves.equals(false);
+			expect(store.get('foo:held')).to.equals('other-token');
+		});
+	});
+
+	describe('releaseLock', () => {
+		const store = new kvjs();
+		// @ts-expect-error We're deliberately using a private constructor here.
+		const cache = new InMemoryCache<unknown>({ keyPrefix: 'foo:' }, store);
+
+		beforeEach(() => {
+			store.flushall();
+			store.set('foo:held', 'other-token');
+		});
+
+		it('should release a lock held by the owner', async () => {
+			await expect((<InMemoryCache<unknown>>cache).releaseLock('held', 'other-token')).resolves.equals(true);
+			expect(store.keys('*')).to.have.members([]);
+		});
+
+		it('should not release a lock held by someone else', async () => {
+			await expect((<InMemoryCache<unknown>>cache).releaseLock('held', 'my-token')).resolves.equals(false);
+			expect(store.get('foo:held')).to.equals('other-token');
+		});
+	});
+
+	describe('extendLock', () => {
+		const store = new kvjs();
+		// @ts-expect-error We're deliberately using a private constructor here.
+		const cache = new InMemoryCache<unknown>({ keyPrefix: 'foo:' }, store);
+
+		beforeEach(() => {
+			store.flushall();
+			store.set('foo:held', 'other-token', { PX: 1000 });
+		});
+
+		it('should extend a lock held by the owner', async () => {
+			await expect((<InMemoryCache<unknown>>cache).extendLock('held', 'other-token', 10)).resolves.equals(true);
+			expect(store.ttl('foo:held')).to.be.greaterThan(1).and.lessThanOrEqual(10);
+		});
+
+		it('should not extend a lock held by someone else', async () => {
+			await expect((<InMemoryCache<unknown>>cache).extendLock('held', 'my-token', 10)).resolves.equals(false);
+			expect(store.ttl('foo:held')).to.be.lessThanOrEqual(1);
+		});
+
+		it('should not extend a missing lock', async () => {
+			await expect((<InMemoryCache<unknown>>cache).extendLock('missing', 'my-token', 10)).resolves.equals(false);
+			expect(store.keys('*')).to.have.members(['foo:held']);
+		});
+	});
+
+	describe('maxItems', () => {
+		it('should evict least recently used entries across children', async () => {
+			const store = new kvjs();
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const base = new InMemoryCache<number>({ maxItems: 3 }, store) as InMemoryCache<number>;
+			const child = base.child('foo:');
+
+			await base.set('one', 1);
+			await child.set('two', 2);
+			await base.set('three', 3);
+			await expect(base.get('one')).resolves.equals(1);
+			await child.set('four', 4);
+
+			expect(store.keys('*')).to.have.members(['one', 'three', 'foo:four']);
+			expect(child.stats().evictions).to.equals(1);
+			expect(base.stats().evictions).to.equals(0);
+		});
+
+		it('should stop tracking removed entries', async () => {
+			const cache = InMemoryCache.init<number>({ maxItems: 2 });
+
+			await cache.set('one', 1);
+			await cache.set('two', 2);
+			await cache.delete('one');
+			await cache.set('three', 3);
+
+			await expect(asyncIterableToArray(cache.keys())).resolves.to.have.members(['two', 'three']);
+			expect(cache.stats().evictions).to.equals(0);
+		});
+
+		it('should not count expired entries as evictions', async () => {
+			const cache = InMemoryCache.init<number>({ maxItems: 1 });
+
+			await cache.set('one', 1, 0.01);
+			await timeout(20);
+			await cache.set('two', 2);
+
+			await expect(asyncIterableToArray(cache.keys())).resolves.to.have.members(['two']);
+			expect(cache.stats().evictions).to.equals(0);
+		});
+
+		it('should drop expired entries before evicting live ones', async () => {
+			const cache = InMemoryCache.init<string>({ maxItems: 3 });
+
+			await cache.set('a', 'a', 60);
+			await cache.set('b', 'b', 60);
+			await cache.set('c', 'c', 0.001);
+			await timeout(10);
+			await cache.set('d', 'd');
+			await cache.set('e', 'e');
+
+			await expect(asyncIterableToArray(cache.keys())).resolves.to.have.members(['b', 'd', 'e']);
+			expect(cache.stats().evictions).to.equals(1);
+		});
+
+		it('should account for the size of counters as they change', async () => {
+			const cache = InMemoryCache.init<number>({ maxBytes: 10, sizeOf: (value) => value as number });
+
+			await cache.set('a', 1);
+			await cache.increment('c', 1);
+			await cache.increment('c', 4);
+			await expect(asyncIterableToArray(cache.keys())).resolves.to.have.members(['a', 'c']);
+			await cache.increment('c', 1);
+
+			await expect(asyncIterableToArray(cache.keys())).resolves.to.have.members(['c']);
+			expect(cache.stats().evictions).to.equals(1);
+		});
+	});
+
+	describe('maxBytes', () => {
+		it('should evict least recently used entries until the size fits', async () => {
+			const cache = InMemoryCache.init<string>({ maxBytes: 100, sizeOf: (value) => (value as string).length });
+
+			await cache.set('a', 'x'.repeat(40));
+			await cache.set('b', 'x'.repeat(40));
+			await cache.set('c', 'x'.repeat(40));
+
+			await expect(asyncIterableToArray(cache.keys())).resolves.to.have.members(['b', 'c']);
+			expect(cache.stats().evictions).to.equals(1);
+		});
+
+		it('should estimate size of structured values by default', async () => {
+			const cache = InMemoryCache.init<unknown>({ maxBytes: 1024 });
+
+			await cache.set('small', { foo: 'bar', list: [1, 2, 3] });
+			await cache.set('large', { data: new Uint8Array(1000) });
+
+			await expect(asyncIterableToArray(cache.keys())).resolves.to.have.members(['large']);
+		});
+	});
+
+	describe('stats', () => {
+		it('should count hits, misses, sets and deletes', async () => {
+			const cache = InMemoryCache.init<number>({ keyPrefix: 'foo:' });
+			expect(cache.stats()).to.deep.equal({
+				hits: 0,
+				misses: 0,
+				hitRatio: undefined,
+				sets: 0,
+				deletes: 0,
+				errors: 0,
+				evictions: 0,
+				bytesRead: 0,
+				bytesWritten: 0,
+			});
+
+			await cache.set('answer', 42);
+			await cache.setMany(
+				(function* () {
+					yield ['one', 1] as const;
+					yield ['two', 2] as const;
+				})(),
+			);
+			await expect(cache.get('answer')).resolves.equals(42);
+			await expect(cache.get('missing')).resolves.toBeUndefined();
+			expect((await cache.getMany(['one', 'two', 'three', 'four'])).size).equals(2);
+			await cache.delete('answer');
+			await cache.deleteMany(['one', 'two']);
+			await expect(cache.remember('answer', async () => 42)).resolves.equals(42);
+
+			expect(cache.stats()).to.deep.include({ hits: 3, misses: 4, hitRatio: 3 / 7, sets: 4, deletes: 3, errors: 0 });
+		});
+
+		it('should keep distinct stats for children', async () => {
+			const base = InMemoryCache.init<number>({});
+			const child = base.child('foo:');
+
+			await child.set('answer', 42);
+			await expect(base.get('foo:answer')).resolves.equals(42);
+
+			expect(base.stats()).to.deep.include({ hits: 1, sets: 0 });
+			expect(child.stats()).to.deep.include({ hits: 0, sets: 1 });
+		});
+	});
 });
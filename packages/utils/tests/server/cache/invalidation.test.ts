@@ -0,0 +1,112 @@
+import { InMemoryCache } from '$lib/server/cache/in-memory';
+import {
+	InProcessInvalidationTransport,
+	type InvalidationMessage,
+	type InvalidationTransport,
+} from '$lib/server/cache/invalidation';
+import { asyncIterableToArray } from '$lib/utils/collections';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe(InProcessInvalidationTransport.name, () => {
+	it('should deliver messages to all subscribers until they unsubscribe', async () => {
+		const transport = new InProcessInvalidationTransport();
+		const received: InvalidationMessage[] = [];
+		const unsubscribe = await transport.subscribe((message) => received.push(message));
+
+		const message: InvalidationMessage = { origin: 'foo', keyPrefix: '', op: 'delete', keys: ['bar'] };
+		await transport.publish(message);
+		await unsubscribe();
+		await transport.publish(message);
+
+		expect(received).to.deep.equal([message]);
+		expect(received[0]).not.equals(message);
+	});
+
+	describe('with InMemoryCache replicas', () => {
+		let transport: InProcessInvalidationTransport;
+		let first: InMemoryCache<string>;
+		let second: InMemoryCache<string>;
+
+		beforeEach(async () => {
+			transport = new InProcessInvalidationTransport();
+			first = InMemoryCache.init({ invalidation: transport });
+			second = InMemoryCache.init({ invalidation: transport });
+			for (const cache of [first, second]) {
+				await cache.setMany([
+					['foo', 'bar'],
+					['baz:1', 'one'],
+					['baz:2', 'two'],
+					['child:foo', 'child'],
+				]);
+				await cache.set('tagged', 'value', undefined, undefined, ['tag']);
+			}
+		});
+
+		it('should broadcast deletions', async () => {
+			await first.delete('foo');
+			await first.deleteMany(['baz:1']);
+
+			for (const cache of [first, second]) {
+				await expect(asyncIterableToArray(cache.keys())).resolves.to.have.members(['baz:2', 'child:foo', 'tagged']);
+			}
+		});
+
+		it('should broadcast flushes', async () => {
+			await first.clear('baz:');
+			await second.clearPattern('tag*');
+
+			for (const cache of [first, second]) {
+				await expect(asyncIterableToArray(cache.keys())).resolves.to.have.members(['foo', 'child:foo']);
+			}
+		});
+
+		it('should broadcast tag invalidations', async () => {
+			await second.clearTags('tag');
+
+			for (const cache of [first, second]) {
+				await expect(cache.get('tagged')).resolves.toBeUndefined();
+			}
+		});
+
+		it('should apply invalidations respecting key prefix of children', async () => {
+			await first.child('child:').delete('foo');
+
+			for (const cache of [first, second]) {
+				await expect(cache.get('child:foo')).resolves.toBeUndefined();
+				await expect(cache.get('foo')).resolves.equals('bar');
+			}
+		});
+
+		it('should keep trying to subscribe until the transport recovers', async () => {
+			vi.useFakeTimers();
+			try {
+				let failures = 2;
+				const flaky: InvalidationTransport = {
+					publish: (message) => transport.publish(message),
+					subscribe: vi.fn((listener) =>
+						failures-- > 0 ? Promise.reject(new Error('Transport is down')) : transport.subscribe(listener),
+					),
+				};
+				const cache = InMemoryCache.init<string>({ invalidation: flaky });
+				await cache.set('foo', 'bar');
+
+				await vi.advanceTimersByTimeAsync(10_000);
+				await first.delete('foo');
+
+				expect(flaky.subscribe).toHaveBeenCalledTimes(3);
+				await expect(cache.get('foo')).resolves.toBeUndefined();
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		it('should not affect caches without a transport', async () => {
+			const standalone = InMemoryCache.init<string>({});
+			await standalone.set('foo', 'bar');
+
+			await first.delete('foo');
+
+			await expect(standalone.get('foo')).resolves.equals('bar');
+		});
+	});
+});
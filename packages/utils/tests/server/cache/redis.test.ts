@@ -0,0 +1,688 @@
+import { CircuitBreaker, CircuitOpenError } from '$lib/server/cache/circuit-breaker';
+import type { InvalidationMessage } from '$lib/server/cache/invalidation';
+import { hashSlot, RedisCache, RedisInvalidationTransport } from '$lib/server/cache/redis';
+import { asyncIterableToArray } from '$lib/utils/collections';
+import { EventEmitter } from 'node:events';
+import { describe, expect, it } from 'vitest';
+
+/**
+ * Minimal in-memory Redis client, supporting plain and bulk reads and writes with expiry, sets, and the scripts used by
+ * the cache. Commands are recorded along with their keys.
+ */
+class FakeRedis extends EventEmitter {
+	readonly options = {};
+	readonly data = new Map<string, Buffer>();
+	readonly sets = new Map<string, Set<string>>();
+	/** Expiry of keys, as Unix timestamps in milliseconds. */
+	readonly expiries = new Map<string, number>();
+	readonly commands: [command: string, keys: string[]][] = [];
+
+	public async connect(): Promise<void> {}
+
+	/**
+	 * Check whether a key exists, deleting it first if it has expired.
+	 *
+	 * @param key Key.
+	 */
+	protected exists(key: string): boolean {
+		if ((this.expiries.get(key) ?? Infinity) <= Date.now()) {
+			this.data.delete(key);
+			this.sets.delete(key);
+			this.expiries.delete(key);
+		}
+
+		return this.data.has(key) || this.sets.has(key);
+	}
+
+	/**
+	 * Read a key, deleting it first if it has expired.
+	 *
+	 * @param key Key.
+	 */
+	protected read(key: string): Buffer | undefined {
+		return this.exists(key) ? this.data.get(key) : undefined;
+	}
+
+	public async get(_options: unknown, key: string): Promise<Buffer | null> {
+		this.commands.push(['GET', [key]]);
+
+		return this.read(key) ?? null;
+	}
+
+	public async mGet(_options: unknown, keys: string[]): Promise<(Buffer | null)[]> {
+		this.commands.push(['MGET', keys]);
+
+		return keys.map((key) => this.read(key) ?? null);
+	}
+
+	public async set(key: string, value: Buffer | string, options?: { NX?: boolean; PX?: number }): Promise<'OK' | null> {
+		if (options?.NX && this.exists(key)) {
+			return null;
+		}
+
+		this.data.set(key, Buffer.from(value));
+		this.expiries.delete(key);
+		if (options?.PX !== undefined) {
+			this.expiries.set(key, Date.now() + options.PX);
+		}
+
+		return 'OK';
+	}
+
+	public async setEx(key: string, seconds: number, value: Buffer | string): Promise<'OK' | null> {
+		return this.set(key, value, { PX: seconds * 1000 });
+	}
+
+	public async del(keys: string | string[]): Promise<number> {
+		keys = typeof keys === 'string' ? [keys] : keys;
+		this.commands.push(['DEL', keys]);
+
+		return keys.filter((key) => this.#del(key)).length;
+	}
+
+	#del(key: string): boolean {
+		if (!this.exists(key)) {
+			return false;
+		}
+
+		this.data.delete(key);
+		this.sets.delete(key);
+		this.expiries.delete(key);
+
+		return true;
+	}
+
+	public async pTTL(key: string): Promise<number> {
+		if (!this.exists(key)) {
+			return -2;
+		}
+
+		const expiry = this.expiries.get(key);
+
+		return expiry !== undefined ? expiry - Date.now() : -1;
+	}
+
+	public async sMembers(key: string): Promise<string[]> {
+		return this.exists(key) ? [...this.sets.get(key)!] : [];
+	}
+
+	public async *scanIterator({ MATCH }: { MATCH: string }): AsyncGenerator<string> {
+		const pattern = new RegExp(`^${MATCH.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replaceAll('*', '.*')}$`);
+		for (const key of [...this.data.keys(), ...this.sets.keys()]) {
+			if (this.exists(key) && pattern.test(key)) {
+				yield key;
+			}
+		}
+	}
+
+	public multi() {
+		const queue: [key: string, run: () => Promise<unknown>][] = [];
+		const pipeline = {
+			set: (key: string, value: Buffer) => {
+				queue.push([key, () => this.set(key, value)]);
+
+				return pipeline;
+			},
+			setEx: (key: string, seconds: number, value: Buffer) => {
+				queue.push([key, () => this.setEx(key, seconds, value)]);
+
+				return pipeline;
+			},
+			execAsPipeline: async () => {
+				this.commands.push(['PIPELINE', queue.map(([key]) => key)]);
+
+				return Promise.all(queue.map(([, run]) => run()));
+			},
+		};
+
+		return pipeline;
+	}
+
+	/**
+	 * Add a key to a tag index, making sure the index does not expire before the entry.
+	 *
+	 * @param tagKey Key of the tag index.
+	 * @param key Key to add.
+	 * @param px Time-to-live of the entry, expressed as number of milliseconds, or empty.
+	 */
+	#indexTag(tagKey: string, key: string, px: string): void {
+		const existed = this.exists(tagKey);
+		const current = this.expiries.has(tagKey) ? this.expiries.get(tagKey)! - Date.now() : -1;
+		this.sets.set(tagKey, (this.sets.get(tagKey) ?? new Set()).add(key));
+		if (px === '') {
+			this.expiries.delete(tagKey);
+		} else if (!existed || (current >= 0 && current < Number(px))) {
+			this.expiries.set(tagKey, Date.now() + Number(px));
+		}
+	}
+
+	/**
+	 * Emulate the scripts used by the cache, telling them apart by the commands they issue.
+	 *
+	 * @param script Lua script.
+	 * @param options Keys and arguments of the script.
+	 */
+	public async eval(script: string, { keys, arguments: args }: { keys: string[]; arguments: string[] }) {
+		this.commands.push(['EVAL', keys]);
+		const [key, ...otherKeys] = keys;
+		const [arg1, arg2] = args;
+
+		if (script.includes('for i = 2, #KEYS do')) {
+			if (!this.exists(key)) {
+				return 0;
+			}
+
+			if (arg1 === '') {
+				this.expiries.delete(key);
+			} else {
+				this.expiries.set(key, Date.now() + Number(arg1));
+			}
+			otherKeys.forEach((tagKey) => this.#indexTag(tagKey, key, arg1));
+
+			return 1;
+		}
+
+		if (script.includes("'incrby'")) {
+			const existed = this.exists(key);
+			const value = Number(this.read(key)?.toString() ?? 0) + Number(arg1);
+			this.data.set(key, Buffer.from(`${value}`));
+			if (!existed && arg2 !== '') {
+				this.expiries.set(key, Date.now() + Number(arg2));
+			}
+
+			return value;
+		}
+
+		if (script.includes("'sadd'")) {
+			this.#indexTag(key, arg1, arg2);
+
+			return 1;
+		}
+
+		if (script.includes("redis.call('get', KEYS[1]) == ARGV[1]")) {
+			if (this.read(key)?.toString() !== arg1) {
+				return 0;
+			}
+			if (script.includes("'del'")) {
+				return Number(this.#del(key));
+			}
+			if (script.includes("'pexpire'")) {
+				this.expiries.set(key, Date.now() + Number(arg2));
+
+				return 1;
+			}
+		}
+
+		throw new Error(`Unsupported script: ${script}`);
+	}
+}
+
+/** Minimal in-memory Redis cluster, made of a single master node, so that keys get grouped by hash slot. */
+class FakeRedisCluster extends FakeRedis {
+	readonly masters = [{ address: 'localhost:6379', client: Promise.resolve(this) }];
+}
+
+describe(hashSlot.name, () => {
+	it('should compute the hash slot of keys', () => {
+		expect(hashSlot('123456789')).equals(12739);
+		expect(hashSlot('somekey')).equals(11058);
+		expect(hashSlot('foo{hash_tag}')).equals(2515);
+	});
+
+	it('should only hash the hash tag of keys', () => {
+		expect(hashSlot('{user1000}.following')).equals(hashSlot('user1000'));
+		expect(hashSlot('{user1000}.followers')).equals(hashSlot('user1000'));
+		expect(hashSlot('foo{bar}{zap}')).equals(hashSlot('bar'));
+		expect(hashSlot('foo{{bar}}')).equals(hashSlot('{bar'));
+		// Empty hash tags are ignored, and the whole key is hashed.
+		expect(hashSlot('foo{}{bar}')).not.equals(hashSlot('bar'));
+	});
+});
+
+describe(RedisCache.name, () => {
+	describe('increment', () => {
+		for (const codec of ['json', 'msgpack', 'text'] as const) {
+			it(`should read counters back as numbers with ${codec} codec`, async () => {
+				const client = new FakeRedis();
+				// @ts-expect-error We're deliberately using a private constructor here.
+				const cache = new RedisCache({ codec }, client) as RedisCache<unknown>;
+
+				await expect(cache.increment('counter', 5)).resolves.equals(5);
+				await expect(cache.increment('counter', -7)).resolves.equals(-2);
+				await expect(cache.get('counter')).resolves.equals(-2);
+			});
+		}
+
+		it('should keep reading values stored with metadata through the codec', async () => {
+			const client = new FakeRedis();
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const cache = new RedisCache({ codec: 'text' }, client) as RedisCache<string, 'text'>;
+
+			await cache.set('foo', '42');
+			await expect(cache.get('foo')).resolves.equals('42');
+		});
+	});
+
+	describe('entry framing', () => {
+		it('should store values along with their metadata', async () => {
+			const client = new FakeRedis();
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const cache = new RedisCache({ keyPrefix: 'p:', codec: 'text' }, client) as RedisCache<string, 'text'>;
+
+			await cache.setEntry('foo', { value: 'bar', storedAt: 1000, staleAt: 2000, tags: ['a'] });
+			await cache.setEntry('baz', { storedAt: 1000, tombstone: true });
+
+			const raw = client.data.get('p:foo')!;
+			expect(raw[0]).equals(0x01);
+			expect(raw.subarray(1).toString()).equals('{"storedAt":1000,"staleAt":2000,"tags":["a"]}\nbar');
+			await expect(cache.getEntry('foo')).resolves.to.deep.equal({
+				value: 'bar',
+				storedAt: 1000,
+				staleAt: 2000,
+				tags: ['a'],
+			});
+			await expect(cache.getEntry('baz')).resolves.to.deep.equal({ storedAt: 1000, tombstone: true });
+		});
+
+		it('should read values stored without metadata as a whole', async () => {
+			const client = new FakeRedis();
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const cache = new RedisCache({ keyPrefix: 'p:' }, client) as RedisCache<unknown>;
+			client.data.set('p:foo', Buffer.from('{"bar":"baz"}'));
+			client.data.set('p:counter', Buffer.from('-42'));
+
+			await expect(cache.getEntry('foo')).resolves.to.deep.equal({ value: { bar: 'baz' } });
+			await expect(cache.getEntry('counter')).resolves.to.deep.equal({ value: -42 });
+		});
+
+		it('should only read values stored without metadata as counters when they are integers', async () => {
+			const client = new FakeRedis();
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const cache = new RedisCache({ keyPrefix: 'p:', codec: 'text' }, client) as RedisCache<unknown>;
+			client.data.set('p:counter', Buffer.from('42'));
+			client.data.set('p:float', Buffer.from('4.2'));
+			client.data.set('p:text', Buffer.from('42 apples'));
+
+			await expect(cache.getMany(['counter', 'float', 'text'])).resolves.to.deep.equal(
+				new Map<string, unknown>([
+					['counter', 42],
+					['float', '4.2'],
+					['text', '42 apples'],
+				]),
+			);
+		});
+
+		it('should treat entries with malformed metadata as misses', async () => {
+			const client = new FakeRedis();
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const cache = new RedisCache({ keyPrefix: 'p:' }, client) as RedisCache<unknown>;
+			client.data.set('p:foo', Buffer.from('\x01{"storedAt":1000}'));
+			client.data.set('p:bar', Buffer.from('\x01{storedAt}\n"bar"'));
+
+			await expect(cache.getEntry('foo')).resolves.toBeUndefined();
+			await expect(cache.getEntry('bar')).resolves.toBeUndefined();
+		});
+	});
+
+	describe('bulk operations', () => {
+		it('should read all keys with a single MGET', async () => {
+			const client = new FakeRedis();
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const cache = new RedisCache({ keyPrefix: 'p:' }, client) as RedisCache<string>;
+			await cache.set('foo', 'bar');
+			await cache.set('baz', 'qux', 60);
+
+			const entries = await cache.getEntries(['baz', 'missing', 'foo']);
+			expect([...entries.keys()]).to.deep.equal(['baz', 'foo']);
+			expect(entries.get('foo')).to.include({ value: 'bar' });
+			expect(entries.get('baz')).to.include({ value: 'qux' });
+			expect(client.commands.filter(([command]) => command === 'MGET')).to.deep.equal([
+				['MGET', ['p:baz', 'p:missing', 'p:foo']],
+			]);
+		});
+
+		it('should write all keys with a single pipeline', async () => {
+			const client = new FakeRedis();
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const cache = new RedisCache({ keyPrefix: 'p:' }, client) as RedisCache<string>;
+
+			await cache.setMany(
+				[
+					['foo', 'bar'],
+					['baz', 'qux'],
+				],
+				60,
+			);
+			await cache.setMany([['eternal', 'value']]);
+
+			expect(client.commands.filter(([command]) => command === 'PIPELINE')).to.deep.equal([
+				['PIPELINE', ['p:foo', 'p:baz']],
+				['PIPELINE', ['p:eternal']],
+			]);
+			expect(client.expiries.get('p:foo')).to.be.closeTo(Date.now() + 60_000, 1000);
+			expect(client.expiries.get('p:baz')).to.be.closeTo(Date.now() + 60_000, 1000);
+			expect(client.expiries.has('p:eternal')).equals(false);
+			await expect(cache.getMany(['foo', 'baz', 'eternal'])).resolves.to.deep.equal(
+				new Map([
+					['foo', 'bar'],
+					['baz', 'qux'],
+					['eternal', 'value'],
+				]),
+			);
+		});
+
+		it('should group keys by hash slot in cluster mode', async () => {
+			const client = new FakeRedisCluster();
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const cache = new RedisCache({ keyPrefix: 'p:' }, client) as RedisCache<string>;
+
+			await cache.setMany([
+				['{a}1', 'a1'],
+				['{b}1', 'b1'],
+				['{a}2', 'a2'],
+			]);
+			await expect(cache.getMany(['{a}1', '{b}1', '{a}2'])).resolves.to.deep.equal(
+				new Map([
+					['{a}1', 'a1'],
+					['{b}1', 'b1'],
+					['{a}2', 'a2'],
+				]),
+			);
+			await cache.deleteMany(['{a}1', '{b}1', '{a}2']);
+
+			expect(client.commands.filter(([command]) => command !== 'GET')).to.deep.equal([
+				['PIPELINE', ['p:{a}1', 'p:{a}2']],
+				['PIPELINE', ['p:{b}1']],
+				['MGET', ['p:{a}1', 'p:{a}2']],
+				['MGET', ['p:{b}1']],
+				['DEL', ['p:{a}1', 'p:{a}2']],
+				['DEL', ['p:{b}1']],
+			]);
+			expect(client.data.size).equals(0);
+		});
+	});
+
+	describe('tags', () => {
+		it('should index keys by tag, without the index expiring before its entries', async () => {
+			const client = new FakeRedis();
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const cache = new RedisCache({ keyPrefix: 'p:' }, client) as RedisCache<string>;
+
+			await cache.set('foo', 'foo', 60, undefined, ['a']);
+			await cache.set('bar', 'bar', 10, undefined, ['a', 'b']);
+			expect(client.sets.get('p:__tag__:a')).to.deep.equal(new Set(['p:foo', 'p:bar']));
+			expect(client.sets.get('p:__tag__:b')).to.deep.equal(new Set(['p:bar']));
+			await expect(client.pTTL('p:__tag__:a')).resolves.to.be.closeTo(60_000, 1000);
+			await expect(client.pTTL('p:__tag__:b')).resolves.to.be.closeTo(10_000, 1000);
+
+			await cache.setMany([['baz', 'baz']], undefined, undefined, ['b']);
+			await expect(client.pTTL('p:__tag__:b')).resolves.equals(-1);
+		});
+
+		it('should delete entries with any of the given tags along with their indexes', async () => {
+			const client = new FakeRedis();
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const cache = new RedisCache({ keyPrefix: 'p:' }, client) as RedisCache<string>;
+			await cache.set('foo', 'foo', undefined, undefined, ['a']);
+			await cache.set('bar', 'bar', undefined, undefined, ['b']);
+			await cache.set('baz', 'baz', undefined, undefined, ['c']);
+
+			await cache.clearTags('a', 'b');
+
+			await expect(cache.getMany(['foo', 'bar', 'baz'])).resolves.to.deep.equal(new Map([['baz', 'baz']]));
+			expect([...client.sets.keys()]).to.deep.equal(['p:__tag__:c']);
+		});
+
+		it('should hide tag indexes when listing keys', async () => {
+			const client = new FakeRedis();
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const cache = new RedisCache({ keyPrefix: 'p:' }, client) as RedisCache<string>;
+			await cache.set('foo', 'foo', undefined, undefined, ['a']);
+
+			await expect(asyncIterableToArray(cache.keys())).resolves.to.deep.equal(['foo']);
+		});
+	});
+
+	describe('ttl and touch', () => {
+		it('should report the remaining TTL of entries', async () => {
+			const client = new FakeRedis();
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const cache = new RedisCache({ keyPrefix: 'p:' }, client) as RedisCache<string>;
+			await cache.set('foo', 'foo', 60);
+			await cache.set('bar', 'bar');
+
+			await expect(cache.ttl('foo')).resolves.to.be.closeTo(60, 1);
+			await expect(cache.ttl('bar')).resolves.equals(Infinity);
+			await expect(cache.ttl('missing')).resolves.toBeUndefined();
+		});
+
+		it('should update the TTL of entries with millisecond precision', async () => {
+			const client = new FakeRedis();
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const cache = new RedisCache({ keyPrefix: 'p:' }, client) as RedisCache<string>;
+			await cache.set('foo', 'foo');
+
+			await expect(cache.touch('foo', 0.3)).resolves.equals(true);
+			await expect(cache.ttl('foo')).resolves.to.be.closeTo(0.3, 0.05);
+			await expect(cache.get('foo')).resolves.equals('foo');
+
+			await expect(cache.touch('foo')).resolves.equals(true);
+			await expect(cache.ttl('foo')).resolves.equals(Infinity);
+		});
+
+		it('should not create missing entries', async () => {
+			const client = new FakeRedis();
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const cache = new RedisCache({ keyPrefix: 'p:' }, client) as RedisCache<string>;
+
+			await expect(cache.touch('foo', 60)).resolves.equals(false);
+			expect(client.data.size).equals(0);
+		});
+
+		it('should extend tag indexes along with entries in a single script', async () => {
+			const client = new FakeRedis();
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const cache = new RedisCache({ keyPrefix: 'p:' }, client) as RedisCache<string>;
+			await cache.set('foo', 'foo', 10, undefined, ['a', 'b']);
+			client.commands.length = 0;
+
+			await expect(cache.touch('foo', 60)).resolves.equals(true);
+			await expect(client.pTTL('p:__tag__:a')).resolves.to.be.closeTo(60_000, 1000);
+			await expect(client.pTTL('p:__tag__:b')).resolves.to.be.closeTo(60_000, 1000);
+			expect(client.commands.filter(([command]) => command === 'EVAL')).to.deep.equal([
+				['EVAL', ['p:foo', 'p:__tag__:a', 'p:__tag__:b']],
+			]);
+
+			await expect(cache.touch('foo')).resolves.equals(true);
+			await expect(client.pTTL('p:__tag__:a')).resolves.equals(-1);
+		});
+
+		it('should extend tag indexes living in other hash slots separately in cluster mode', async () => {
+			const client = new FakeRedisCluster();
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const cache = new RedisCache({ keyPrefix: 'p:' }, client) as RedisCache<string>;
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const tagged = new RedisCache({ keyPrefix: '{p}:' }, client) as RedisCache<string>;
+			await cache.set('foo', 'foo', 10, undefined, ['a']);
+			await tagged.set('foo', 'foo', 10, undefined, ['a']);
+			client.commands.length = 0;
+
+			await expect(cache.touch('foo', 60)).resolves.equals(true);
+			await expect(tagged.touch('foo', 60)).resolves.equals(true);
+			await expect(client.pTTL('p:__tag__:a')).resolves.to.be.closeTo(60_000, 1000);
+			await expect(client.pTTL('{p}:__tag__:a')).resolves.to.be.closeTo(60_000, 1000);
+			expect(client.commands.filter(([command]) => command === 'EVAL')).to.deep.equal([
+				['EVAL', ['p:foo']],
+				['EVAL', ['p:__tag__:a']],
+				['EVAL', ['{p}:foo', '{p}:__tag__:a']],
+			]);
+		});
+	});
+
+	describe('locks', () => {
+		it('should only let the owner of a lock release it', async () => {
+			const client = new FakeRedis();
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const cache = new RedisCache({ keyPrefix: 'p:' }, client) as RedisCache<string>;
+
+			const lock = await cache.acquire('foo', 10);
+			expect(lock).not.toBeUndefined();
+			await expect(cache.acquire('foo', 10)).resolves.toBeUndefined();
+
+			await expect(cache.releaseLock('__lock__:foo', 'someone-else')).resolves.equals(false);
+			expect(client.data.get('p:__lock__:foo')?.toString()).equals(lock!.token);
+			await expect(lock!.release()).resolves.equals(true);
+			await expect(lock!.release()).resolves.equals(false);
+			expect(client.data.has('p:__lock__:foo')).equals(false);
+		});
+
+		it('should only let the owner of a lock extend it', async () => {
+			const client = new FakeRedis();
+			// @ts-expect-error We're deliberately using a private constructor here.
+			const cache = new RedisCache({ keyPrefix: 'p:' }, client) as RedisCache<string>;
+
+			const lock = await cache.acquire('foo', 10);
+			await expect(client.pTTL('p:__lock__:foo')).resolves.to.be.closeTo(10_000, 1000);
+
+			await expect(cache.extendLock('__lock__:foo', 'someone-else', 60)).resolves.equals(false);
+			await expect(client.pTTL('p:__lock__:foo')).resolves.to.be.closeTo(10_000, 1000);
+			await expect(lock!.extend(60)).resolves.equals(true);
+			await expect(client.pTTL('p:__lock__:foo')).resolves.to.be.closeTo(60_000, 1000);
+
+			await lock!.release();
+			await expect(lock!.extend(60)).resolves.equals(false);
+			expect(client.data.has('p:__lock__:foo')).equals(false);
+		});
+	});
+
+	describe('resilience', () => {
+		/**
+		 * Create a cache whose Redis connection always fails, with a circuit that opens on the first failure.
+		 */
+		const init = (): RedisCache<string> => {
+			const client = Object.assign(new EventEmitter(), {
+				options: {},
+				connect: () => Promise.reject(new Error('Redis is down')),
+			});
+
+			// @ts-expect-error We're deliberately using a private constructor here.
+			return new RedisCache({ resilience: true }, client, new CircuitBreaker({ failureThreshold: 1 }));
+		};
+
+		it('should fail open on reads and writes', async () => {
+			const cache = init();
+
+			await expect(cache.get('foo')).resolves.toBeUndefined();
+			expect(cache.circuitBreaker?.state).equals('open');
+			await expect(cache.set('foo', 'bar')).resolves.toBeUndefined();
+			await expect(cache.get('foo')).resolves.toBeUndefined();
+		});
+
+		it('should not mistake a lock that cannot be acquired for a lock held by someone else', async () => {
+			const cache = init();
+			await cache.get('foo');
+
+			await expect(cache.acquire('foo', 10)).rejects.toThrow(CircuitOpenError);
+			const start = Date.now();
+			await expect(
+				cache.remember('foo', async () => 'generated', undefined, undefined, { lock: true }),
+			).resolves.equals('generated');
+			expect(Date.now() - start).to.be.lessThan(1000);
+		});
+	});
+});
+
+/** Minimal in-memory Redis client supporting pub/sub, whose connections can be made to fail. */
+class FakePubSubRedis extends EventEmitter {
+	readonly options = {};
+	isOpen = false;
+	connections = 0;
+	/** Number of upcoming connection attempts that will fail. */
+	failures = 0;
+	duplicated?: FakePubSubRedis;
+
+	constructor(readonly channels = new Map<string, Set<(raw: string) => void>>()) {
+		super();
+	}
+
+	public duplicate(): FakePubSubRedis {
+		return (this.duplicated = new FakePubSubRedis(this.channels));
+	}
+
+	public async connect(): Promise<void> {
+		if (this.failures > 0) {
+			this.failures--;
+			throw new Error('Redis is down');
+		}
+
+		this.isOpen = true;
+		this.connections++;
+	}
+
+	public async publish(channel: string, raw: string): Promise<number> {
+		const listeners = [...(this.channels.get(channel) ?? [])];
+		listeners.forEach((listener) => listener(raw));
+
+		return listeners.length;
+	}
+
+	public async subscribe(channel: string, listener: (raw: string) => void): Promise<void> {
+		this.channels.set(channel, (this.channels.get(channel) ?? new Set()).add(listener));
+	}
+
+	public async unsubscribe(channel: string, listener: (raw: string) => void): Promise<void> {
+		this.channels.get(channel)?.delete(listener);
+	}
+
+	public async quit(): Promise<void> {
+		this.isOpen = false;
+		this.emit('end');
+	}
+}
+
+describe(RedisInvalidationTransport.name, () => {
+	const message: InvalidationMessage = { origin: 'foo', keyPrefix: '', op: 'delete', keys: ['bar'] };
+
+	it('should deliver messages to subscribers until they unsubscribe, skipping malformed ones', async () => {
+		const client = new FakePubSubRedis();
+		// @ts-expect-error We're deliberately using a private constructor here.
+		const transport = new RedisInvalidationTransport({}, client) as RedisInvalidationTransport;
+		const received: InvalidationMessage[] = [];
+		const unsubscribe = await transport.subscribe((message) => received.push(message));
+
+		await transport.publish(message);
+		await client.publish('cache:invalidation', '{malformed');
+		await unsubscribe();
+		await transport.publish(message);
+
+		expect(received).to.deep.equal([message]);
+	});
+
+	it('should connect again after a connection attempt fails', async () => {
+		const client = new FakePubSubRedis();
+		// @ts-expect-error We're deliberately using a private constructor here.
+		const transport = new RedisInvalidationTransport({}, client) as RedisInvalidationTransport;
+		client.duplicated!.failures = 1;
+
+		await expect(transport.publish(message)).rejects.toThrow('Redis is down');
+		await expect(transport.publish(message)).resolves.toBeUndefined();
+		expect(client.connections).equals(1);
+		expect(client.duplicated!.connections).equals(1);
+	});
+
+	it('should connect again after a connection ends', async () => {
+		const client = new FakePubSubRedis();
+		// @ts-expect-error We're deliberately using a private constructor here.
+		const transport = new RedisInvalidationTransport({}, client) as RedisInvalidationTransport;
+		await transport.publish(message);
+
+		await client.duplicated!.quit();
+		const received: InvalidationMessage[] = [];
+		await transport.subscribe((message) => received.push(message));
+		await transport.publish(message);
+
+		expect(received).to.deep.equal([message]);
+		expect(client.connections).equals(1);
+		expect(client.duplicated!.connections).equals(2);
+	});
+});
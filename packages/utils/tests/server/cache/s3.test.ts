@@ -0,0 +1,323 @@
+import { compressedCodec } from '$lib/server/cache/codecs';
+import { S3Cache } from '$lib/server/cache/s3';
+import { asyncIterableToArray } from '$lib/utils/collections';
+import {
+	CopyObjectCommand,
+	DeleteObjectCommand,
+	DeleteObjectsCommand,
+	GetObjectCommand,
+	HeadObjectCommand,
+	ListObjectsV2Command,
+	NoSuchKey,
+	PutObjectCommand,
+	S3ServiceException,
+} from '@aws-sdk/client-s3';
+import { beforeEach, describe, expect, expectTypeOf, it } from 'vitest';
+
+type StoredObject = {
+	body: Uint8Array;
+	etag: string;
+	contentType?: string;
+	contentEncoding?: string;
+	metadata: Record<string, string>;
+};
+
+/**
+ * Build an error as returned by S3 for a failed request.
+ *
+ * @param name Error name.
+ * @param httpStatusCode HTTP status code.
+ */
+const s3Error = (name: string, httpStatusCode: number): S3ServiceException =>
+	new S3ServiceException({ name, $fault: 'client', $metadata: { httpStatusCode } });
+
+/**
+ * Minimal in-memory S3 client, supporting the commands issued by the cache on a single bucket.
+ */
+class FakeS3 {
+	readonly objects = new Map<string, StoredObject>();
+	#etag = 0;
+
+	public async send(command: unknown): Promise<unknown> {
+		if (command instanceof PutObjectCommand) {
+			const { Key, Body, IfNoneMatch, IfMatch, ContentType, ContentEncoding, Metadata } = command.input;
+			const current = this.objects.get(Key!);
+			if ((IfNoneMatch === '*' && current !== undefined) || (IfMatch !== undefined && current?.etag !== IfMatch)) {
+				throw s3Error('PreconditionFailed', 412);
+			}
+
+			this.#put(Key!, {
+				body: typeof Body === 'string' ? new TextEncoder().encode(Body) : (Body as Uint8Array),
+				contentType: ContentType,
+				contentEncoding: ContentEncoding,
+				metadata: { ...Metadata },
+			});
+
+			return {};
+		}
+		if (command instanceof GetObjectCommand) {
+			const object = this.objects.get(command.input.Key!);
+			if (object === undefined) {
+				throw new NoSuchKey({ message: 'The specified key does not exist.', $metadata: { httpStatusCode: 404 } });
+			}
+
+			return {
+				Body: {
+					transformToByteArray: async () => object.body,
+					transformToString: async () => new TextDecoder().decode(object.body),
+				},
+				ETag: object.etag,
+				ContentType: object.contentType,
+				ContentEncoding: object.contentEncoding,
+				Metadata: object.metadata,
+			};
+		}
+		if (command instanceof HeadObjectCommand) {
+			const object = this.objects.get(command.input.Key!);
+			if (object === undefined) {
+				throw s3Error('NotFound', 404);
+			}
+
+			return {
+				ETag: object.etag,
+				ContentType: object.contentType,
+				ContentEncoding: object.contentEncoding,
+				Metadata: object.metadata,
+			};
+		}
+		if (command instanceof CopyObjectCommand) {
+			const { Key, CopySource, CopySourceIfMatch, ContentType, ContentEncoding, Metadata } = command.input;
+			const source = this.objects.get(CopySource!.split('/').slice(1).map(decodeURIComponent).join('/'));
+			if (source === undefined) {
+				throw new NoSuchKey({ message: 'The specified key does not exist.', $metadata: { httpStatusCode: 404 } });
+			}
+			if (CopySourceIfMatch !== undefined && source.etag !== CopySourceIfMatch) {
+				throw s3Error('PreconditionFailed', 412);
+			}
+
+			this.#put(Key!, {
+				body: source.body,
+				contentType: ContentType,
+				contentEncoding: ContentEncoding,
+				metadata: { ...Metadata },
+			});
+
+			return {};
+		}
+		if (command instanceof DeleteObjectCommand) {
+			const { Key, IfMatch } = command.input;
+			if (IfMatch !== undefined && this.objects.get(Key!)?.etag !== IfMatch) {
+				throw s3Error('PreconditionFailed', 412);
+			}
+
+			this.objects.delete(Key!);
+
+			return {};
+		}
+		if (command instanceof DeleteObjectsCommand) {
+			for (const { Key } of command.input.Delete?.Objects ?? []) {
+				this.objects.delete(Key!);
+			}
+
+			return {};
+		}
+		if (command instanceof ListObjectsV2Command) {
+			const keys = [...this.objects.keys()].filter((key) => key.startsWith(command.input.Prefix ?? '')).sort();
+
+			return { Contents: keys.map((Key) => ({ Key })) };
+		}
+
+		throw new Error(`Unsupported command ${(command as object).constructor.name}`);
+	}
+
+	#put(key: string, object: Omit<StoredObject, 'etag'>): void {
+		this.objects.set(key, { ...object, etag: `"${++this.#etag}"` });
+	}
+}
+
+describe(S3Cache.name, () => {
+	let client: FakeS3;
+	const init = <V = Uint8Array>(options: Record<string, unknown> = {}): S3Cache<V> =>
+		// @ts-expect-error We're deliberately using a private constructor here.
+		new S3Cache({ bucket: 'bucket', ...options }, client);
+
+	beforeEach(() => {
+		client = new FakeS3();
+	});
+
+	it('should create an S3 cache', () => {
+		expect(S3Cache.init({ region: 'eu-west-1' }, { bucket: 'bucket' })).to.be.an.instanceOf(S3Cache);
+	});
+
+	it('should require a codec to store values other than bytes', () => {
+		expectTypeOf(S3Cache.init({}, { bucket: 'bucket' })).toEqualTypeOf<S3Cache<Uint8Array>>();
+		expectTypeOf(S3Cache.init<{ foo: string }, 'json'>({}, { bucket: 'bucket', codec: 'json' })).toEqualTypeOf<
+			S3Cache<{ foo: string }, 'json'>
+		>();
+		// @ts-expect-error Structured values cannot be stored as they are.
+		S3Cache.init<{ foo: string }>({}, { bucket: 'bucket' });
+		// @ts-expect-error Structured values cannot be stored as they are.
+		S3Cache.init<{ foo: string }, 'binary'>({}, { bucket: 'bucket', codec: 'binary' });
+		// @ts-expect-error Text codec only accepts strings.
+		S3Cache.init<number, 'text'>({}, { bucket: 'bucket', codec: 'text' });
+	});
+
+	describe('set', () => {
+		it('should store bytes as they are by default', async () => {
+			const cache = init();
+			const data = new Uint8Array([0, 1, 255]);
+
+			await expect(cache.set('foo', data)).resolves.toBeUndefined();
+			expect(client.objects.get('foo')).to.deep.include({
+				body: data,
+				contentType: 'application/octet-stream',
+				contentEncoding: undefined,
+			});
+			await expect(cache.get('foo')).resolves.to.deep.equal(data);
+		});
+
+		it('should store structured values with a codec, setting the content type', async () => {
+			const json = init<{ date: Date }>({ codec: 'json', keyPrefix: 'json' });
+			const rich = init<{ date: Date }>({ codec: 'rich-json', keyPrefix: 'rich' });
+			const compressed = init<string>({ codec: compressedCodec('text', { threshold: 0 }), keyPrefix: 'compressed' });
+
+			await json.set('foo', { date: new Date(0) });
+			await rich.set('foo', { date: new Date(0) });
+			await compressed.set('foo', 'hello');
+
+			expect(client.objects.get('json/foo')?.contentType).equals('application/json');
+			expect(client.objects.get('compressed/foo')?.contentType).equals('application/octet-stream');
+			await expect(json.get('foo')).resolves.to.deep.equal({ date: '1970-01-01T00:00:00.000Z' });
+			await expect(rich.get('foo')).resolves.to.deep.equal({ date: new Date(0) });
+			await expect(compressed.get('foo')).resolves.equals('hello');
+		});
+
+		it('should store metadata and index objects of tags', async () => {
+			const cache = init<string>({ codec: 'text', keyPrefix: 'prefix' });
+			const before = Date.now();
+
+			await cache.setEntry('foo', { value: 'bar', storedAt: 1, staleAt: 2, tags: ['a tag', 'b'] }, 10);
+			const { metadata } = client.objects.get('prefix/foo')!;
+			expect(metadata).to.include({ 'stored-at': '1', 'stale-at': '2', 'tags': 'a%20tag,b' });
+			expect(Number(metadata['expires-at']))
+				.to.be.at.least(before + 10_000)
+				.and.at.most(Date.now() + 10_000);
+			expect(client.objects.get('prefix/__tag__:a%20tag/foo')?.metadata).to.deep.equal({
+				'expires-at': metadata['expires-at'],
+			});
+			expect(client.objects.has('prefix/__tag__:b/foo')).equals(true);
+		});
+	});
+
+	describe('getEntry', () => {
+		it('should read the entry along with its metadata', async () => {
+			const cache = init<string>({ codec: 'text' });
+			await cache.setEntry('foo', { value: 'bar', storedAt: 1, staleAt: 2, tags: ['a tag'] });
+			await cache.setEntry('tombstone', { storedAt: 1, tombstone: true });
+
+			await expect(cache.getEntry('foo')).resolves.to.deep.equal({
+				value: 'bar',
+				storedAt: 1,
+				staleAt: 2,
+				tags: ['a tag'],
+			});
+			await expect(cache.getEntry('tombstone')).resolves.to.deep.include({ storedAt: 1, tombstone: true });
+			await expect(cache.get('tombstone')).resolves.toBeUndefined();
+		});
+
+		it('should return undefined for missing, expired or malformed entries', async () => {
+			const cache = init<{ foo: string }>({ codec: 'json' });
+			await cache.set('expired', { foo: 'bar' }, -1);
+			client.objects.set('malformed', { body: new Uint8Array([0x7b]), etag: '"0"', metadata: {} });
+
+			await expect(cache.get('missing')).resolves.toBeUndefined();
+			await expect(cache.get('expired')).resolves.toBeUndefined();
+			await expect(cache.get('malformed')).resolves.toBeUndefined();
+		});
+	});
+
+	describe('ttl', () => {
+		it('should return the remaining TTL in seconds', async () => {
+			const cache = init<string>({ codec: 'text' });
+			await cache.set('foo', 'bar', 3);
+			await cache.set('bar', 'baz');
+
+			expect(await cache.ttl('foo'))
+				.to.be.greaterThan(2)
+				.and.lessThanOrEqual(3);
+			await expect(cache.ttl('bar')).resolves.equals(Infinity);
+			await expect(cache.ttl('missing')).resolves.toBeUndefined();
+		});
+	});
+
+	describe('touch', () => {
+		it('should update expiration of the entry and of its tag indexes, preserving value and metadata', async () => {
+			const cache = init<{ foo: string }>({ codec: 'json' });
+			await cache.set('foo', { foo: 'bar' }, 1, undefined, ['tag']);
+
+			await expect(cache.touch('foo', 10)).resolves.equals(true);
+			await expect(cache.ttl('foo')).resolves.to.be.greaterThan(9);
+			await expect(cache.get('foo')).resolves.to.deep.equal({ foo: 'bar' });
+			expect(client.objects.get('foo')?.contentType).equals('application/json');
+			expect(client.objects.get('foo')?.metadata['tags']).equals('tag');
+			expect(client.objects.get('__tag__:tag/foo')?.metadata['expires-at']).equals(
+				client.objects.get('foo')?.metadata['expires-at'],
+			);
+
+			await expect(cache.expire('foo')).resolves.equals(true);
+			await expect(cache.ttl('foo')).resolves.equals(Infinity);
+		});
+
+		it('should return false for missing or expired keys', async () => {
+			const cache = init<string>({ codec: 'text' });
+			await cache.set('expired', 'bar', -1);
+
+			await expect(cache.touch('missing', 10)).resolves.equals(false);
+			await expect(cache.touch('expired', 10)).resolves.equals(false);
+		});
+	});
+
+	describe('keys', () => {
+		it('should list keys in the cache, hiding locks and tag indexes', async () => {
+			const base = init<string>({ codec: 'text' });
+			const cache = base.child('foo');
+			await base.set('bar', 'baz');
+			await cache.set('bar', 'baz', undefined, undefined, ['tag']);
+			await cache.set('baz', 'qux');
+			await cache.acquire('baz', 10);
+
+			await expect(asyncIterableToArray(cache.keys())).resolves.to.have.members(['bar', 'baz']);
+			await base.set('qux/__lock__:1', 'not a lock');
+			await expect(asyncIterableToArray(base.keys('qux/'))).resolves.to.have.members(['qux/__lock__:1']);
+		});
+	});
+
+	describe('clearTags', () => {
+		it('should delete all keys carrying any of the tags, along with their indexes', async () => {
+			const cache = init<string>({ codec: 'text' });
+			await cache.set('a', 'one', undefined, undefined, ['foo']);
+			await cache.set('b', 'two', undefined, undefined, ['bar']);
+			await cache.set('c', 'three', undefined, undefined, ['baz']);
+			await cache.set('d', 'four');
+
+			await expect(cache.clearTags('foo', 'bar')).resolves.toBeUndefined();
+			expect([...client.objects.keys()]).to.have.members(['c', '__tag__:baz/c', 'd']);
+		});
+	});
+
+	describe('acquireLock', () => {
+		it('should acquire a free or expired lock, and release it', async () => {
+			const cache = init();
+
+			await expect(cache.acquireLock('lock', 'my-token', 3)).resolves.equals(true);
+			await expect(cache.acquireLock('lock', 'other-token', 3)).resolves.equals(false);
+			await expect(cache.releaseLock('lock', 'other-token')).resolves.equals(false);
+			await expect(cache.releaseLock('lock', 'my-token')).resolves.equals(true);
+
+			await expect(cache.acquireLock('lock', 'other-token', -1)).resolves.equals(true);
+			await expect(cache.acquireLock('lock', 'my-token', 3)).resolves.equals(true);
+			await expect(cache.extendLock('lock', 'other-token', 3)).resolves.equals(false);
+			await expect(cache.extendLock('lock', 'my-token', 3)).resolves.equals(true);
+		});
+	});
+});
@@ -0,0 +1,398 @@
+import { Session, type SessionData } from '$lib/server';
+import { compressedCodec, type Codec } from '$lib/server/cache/codecs';
+import { SqliteCache } from '$lib/server/cache/sqlite';
+import { withTmpDir } from '$lib/server/utils';
+import { asyncIterableToArray } from '$lib/utils/collections';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { InMemoryCookies } from '../../test-cookies';
+
+/** `node:sqlite` is only available since Node.js 22.5. */
+const hasSqlite = await import('node:sqlite').then(
+	() => true,
+	() => false,
+);
+
+describe.skipIf(!hasSqlite)(SqliteCache.name, () => {
+	const caches: SqliteCache<unknown, Codec | 'json'>[] = [];
+	const init = <V, C extends 'json' | 'rich-json' | Codec = 'json'>(
+		options?: Partial<Parameters<typeof SqliteCache.init<V, C>>[0]>,
+	): SqliteCache<V, C> => {
+		const cache = SqliteCache.init<V, C>({ path: ':memory:', ...options });
+		caches.push(cache as SqliteCache<unknown, Codec | 'json'>);
+
+		return cache;
+	};
+
+	afterEach(async () => {
+		await Promise.all(caches.splice(0).map((cache) => cache.close()));
+	});
+
+	it('should create a SQLite cache', () => {
+		expect(init()).to.be.an.instanceOf(SqliteCache);
+	});
+
+	it('should reject invalid table names', () => {
+		expect(() => SqliteCache.init({ path: ':memory:', table: 'foo; DROP TABLE bar' })).toThrow(TypeError);
+	});
+
+	describe('child', () => {
+		it('should create key-prefixed distinct caches sharing the same database', async () => {
+			const base = init<number>();
+
+			const foo = base.child('foo:');
+			expect(foo).to.be.an.instanceOf(SqliteCache);
+			await expect(foo.set('answer', 42)).resolves.toBeUndefined();
+			await expect(base.get('answer')).resolves.toBeUndefined();
+			await expect(foo.get('answer')).resolves.equals(42);
+			await expect(base.get('foo:answer')).resolves.equals(42);
+
+			const bar = foo.child('bar:');
+			await expect(bar.set('answer', 17)).resolves.toBeUndefined();
+			await expect(foo.get('bar:answer')).resolves.equals(17);
+		});
+	});
+
+	describe('get', () => {
+		it('should return undefined for missing or expired keys', async () => {
+			const cache = init<string>();
+			await cache.set('bar', 'baz', 0.001);
+			await new Promise((resolve) => setTimeout(resolve, 10));
+
+			await expect(cache.get('missing')).resolves.toBeUndefined();
+			await expect(cache.get('bar')).resolves.toBeUndefined();
+		});
+
+		it('should return undefined for malformed data', async () => {
+			await withTmpDir('sqlite-cache-', async (directory) => {
+				const path = join(directory, 'cache.db');
+				await init<string, Codec<string>>({ path, codec: compressedCodec('text', { threshold: 0 }) }).set('bar', 'baz');
+
+				await expect(init<string>({ path }).get('bar')).resolves.toBeUndefined();
+			});
+		});
+
+		it('should decode values with the requested codec', async () => {
+			const json = init<{ date: Date }>();
+			const rich = init<{ date: Date }, 'rich-json'>({ codec: 'rich-json' });
+
+			await rich.set('bar', { date: new Date(0) });
+			await expect(rich.get('bar')).resolves.to.deep.equal({ date: new Date(0) });
+
+			await json.set('bar', { date: new Date(0) });
+			await expect(json.get('bar')).resolves.to.deep.equal({ date: '1970-01-01T00:00:00.000Z' });
+		});
+	});
+
+	describe('getEntry', () => {
+		it('should read the entry along with its metadata', async () => {
+			const cache = init<string>();
+			await cache.setEntry('bar', { value: 'baz', storedAt: 1, staleAt: 2, tags: ['tag'] });
+			await cache.setEntry('tombstone', { storedAt: 1, tombstone: true });
+
+			await expect(cache.getEntry('bar')).resolves.to.deep.equal({
+				value: 'baz',
+				storedAt: 1,
+				staleAt: 2,
+				tags: ['tag'],
+			});
+			await expect(cache.getEntry('tombstone')).resolves.to.deep.equal({
+				storedAt: 1,
+				staleAt: undefined,
+				tags: undefined,
+				tombstone: true,
+			});
+			await expect(cache.get('tombstone')).resolves.toBeUndefined();
+		});
+	});
+
+	describe('getMany', () => {
+		it('should read multiple values at once, omitting missing keys', async () => {
+			const cache = init<string>().child('foo:');
+			await cache.setMany([
+				['bar', 'one'],
+				['baz', 'two'],
+			]);
+
+			await expect(cache.getMany(['baz', 'missing', 'bar'])).resolves.to.deep.equal(
+				new Map([
+					['baz', 'two'],
+					['bar', 'one'],
+				]),
+			);
+		});
+	});
+
+	describe('ttl', () => {
+		it('should return the remaining TTL in seconds', async () => {
+			const cache = init<string>();
+			await cache.set('bar', 'baz', 3);
+			await cache.set('baz', 'qux');
+
+			expect(await cache.ttl('bar'))
+				.to.be.greaterThan(2)
+				.and.lessThanOrEqual(3);
+			await expect(cache.ttl('baz')).resolves.equals(Infinity);
+			await expect(cache.ttl('missing')).resolves.toBeUndefined();
+		});
+	});
+
+	describe('touch', () => {
+		it('should update expiration of the entry, preserving the value', async () => {
+			const cache = init<string>();
+			await cache.set('bar', 'baz', 1);
+
+			await expect(cache.touch('bar', 10)).resolves.equals(true);
+			await expect(cache.ttl('bar')).resolves.to.be.greaterThan(9);
+			await expect(cache.get('bar')).resolves.equals('baz');
+
+			await expect(cache.expire('bar')).resolves.equals(true);
+			await expect(cache.ttl('bar')).resolves.equals(Infinity);
+		});
+
+		it('should return false for missing or expired keys', async () => {
+			const cache = init<string>();
+			await cache.set('bar', 'baz', 0.001);
+			await new Promise((resolve) => setTimeout(resolve, 10));
+
+			await expect(cache.touch('missing', 10)).resolves.equals(false);
+			await expect(cache.touch('bar', 10)).resolves.equals(false);
+		});
+	});
+
+	describe('increment', () => {
+		it('should atomically update counters, setting the TTL only on creation', async () => {
+			const cache = init<number>();
+
+			await expect(cache.increment('counter', 1, 10)).resolves.equals(1);
+			await expect(Promise.all([cache.increment('counter'), cache.increment('counter', 5, 1)])).resolves.to.deep.equal([
+				2, 7,
+			]);
+			await expect(cache.decrement('counter', 3)).resolves.equals(4);
+			await expect(cache.get('counter')).resolves.equals(4);
+			await expect(cache.ttl('counter')).resolves.to.be.greaterThan(9);
+		});
+
+		it('should reject non-integer values', async () => {
+			const cache = init<string | number>();
+			await cache.set('bar', 'baz');
+
+			await expect(cache.increment('bar')).rejects.toThrow(TypeError);
+		});
+	});
+
+	describe('delete', () => {
+		it('should delete the requested keys and ignore missing ones', async () => {
+			const cache = init<string>();
+			await cache.setMany([
+				['bar', 'one'],
+				['baz', 'two'],
+				['qux', 'three'],
+			]);
+
+			await expect(cache.delete('bar')).resolves.toBeUndefined();
+			await expect(cache.deleteMany(['baz', 'missing'])).resolves.toBeUndefined();
+			await expect(asyncIterableToArray(cache.keys())).resolves.to.have.members(['qux']);
+		});
+	});
+
+	describe('keys', () => {
+		let base: SqliteCache<string>;
+		beforeEach(async () => {
+			base = init<string>();
+			await base.setMany([
+				['bar', 'hello'],
+				['foo:bar', 'baz'],
+				['foo:baz:1', 'one baz'],
+				['foo:baz:2', 'two bazs'],
+				['foo:b*z', 'glob'],
+			]);
+			await base.set('foo:expired', 'expired', 0.001);
+			await new Promise((resolve) => setTimeout(resolve, 10));
+		});
+
+		it('should list all the keys in the cache respecting the base prefix', async () => {
+			await expect(asyncIterableToArray(base.child('foo:').keys())).resolves.to.have.members([
+				'bar',
+				'baz:1',
+				'baz:2',
+				'b*z',
+			]);
+		});
+
+		it('should list all the keys in the cache that have the requested prefix', async () => {
+			await expect(asyncIterableToArray(base.child('foo:').keys('baz:'))).resolves.to.have.members(['baz:1', 'baz:2']);
+			await expect(asyncIterableToArray(base.child('foo:').keys('b*'))).resolves.to.have.members(['b*z']);
+		});
+
+		it('should not list nor clear keys holding locks', async () => {
+			const cache = base.child('foo:');
+			await cache.set('qux', 'quux', undefined, undefined, ['tag']);
+			const lock = await cache.acquire('bar', 10);
+
+			await expect(asyncIterableToArray(cache.keys())).resolves.to.have.members([
+				'bar',
+				'baz:1',
+				'baz:2',
+				'b*z',
+				'qux',
+			]);
+			await cache.clearPattern('*');
+			await expect(asyncIterableToArray(cache.keys())).resolves.to.have.members([]);
+			// Internal keys of children are only hidden by the children themselves.
+			await expect(asyncIterableToArray(base.keys())).resolves.to.have.members(['bar', 'foo:__lock__:bar']);
+			await expect(lock?.extend(10)).resolves.equals(true);
+		});
+	});
+
+	describe('clear', () => {
+		let base: SqliteCache<string>;
+		beforeEach(async () => {
+			base = init<string>();
+			await base.setMany([
+				['bar', 'hello'],
+				['foo:bar', 'baz'],
+				['foo:baz:1', 'one baz'],
+				['foo:baz:2', 'two bazs'],
+			]);
+		});
+
+		it('should delete all keys in the cache', async () => {
+			await expect(base.child('foo:').clear()).resolves.toBeUndefined();
+			await expect(asyncIterableToArray(base.keys())).resolves.to.have.members(['bar']);
+		});
+
+		it('should delete all keys in the cache with a requested prefix', async () => {
+			await expect(base.child('foo:').clear('baz:')).resolves.toBeUndefined();
+			await expect(asyncIterableToArray(base.keys())).resolves.to.have.members(['bar', 'foo:bar']);
+		});
+	});
+
+	describe('clearPattern', () => {
+		it('should delete all keys matching the pattern', async () => {
+			const cache = init<string>();
+			await cache.setMany([
+				['foo:1', 'one'],
+				['foo:2', 'two'],
+				['bar:1', 'three'],
+				['foo?1', 'four'],
+				['[foo]:1', 'five'],
+			]);
+
+			await expect(cache.clearPattern('foo:*')).resolves.toBeUndefined();
+			await expect(cache.clearPattern('[foo]*')).resolves.toBeUndefined();
+			await expect(asyncIterableToArray(cache.keys())).resolves.to.have.members(['bar:1', 'foo?1']);
+		});
+	});
+
+	describe('clearTags', () => {
+		it('should delete all keys carrying any of the tags', async () => {
+			const base = init<string>();
+			const cache = base.child('foo:');
+			await cache.set('a', 'one', undefined, undefined, ['foo']);
+			await cache.set('b', 'two', undefined, undefined, ['bar']);
+			await cache.set('c', 'three', undefined, undefined, ['baz']);
+			await cache.set('d', 'four');
+			await base.set('e', 'five', undefined, undefined, ['foo']);
+
+			await expect(cache.clearTags('foo', 'bar')).resolves.toBeUndefined();
+			await expect(asyncIterableToArray(base.keys())).resolves.to.have.members(['foo:c', 'foo:d', 'e']);
+		});
+
+		it('should not delete entries that have been overwritten without the tag', async () => {
+			const cache = init<string>();
+			await cache.set('a', 'one', undefined, undefined, ['foo']);
+			await cache.set('a', 'two');
+
+			await expect(cache.clearTags('foo')).resolves.toBeUndefined();
+			await expect(cache.get('a')).resolves.equals('two');
+		});
+	});
+
+	describe('locks', () => {
+		it('should acquire a free or expired lock', async () => {
+			const cache = init<string>();
+
+			await expect(cache.acquireLock('lock', 'my-token', 0.001)).resolves.equals(true);
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			await expect(cache.acquireLock('lock', 'other-token', 3)).resolves.equals(true);
+			await expect(cache.acquireLock('lock', 'my-token', 3)).resolves.equals(false);
+		});
+
+		it('should only release or extend a lock held by the owner', async () => {
+			const cache = init<string>();
+			await cache.acquireLock('lock', 'my-token', 1);
+
+			await expect(cache.extendLock('lock', 'other-token', 10)).resolves.equals(false);
+			await expect(cache.extendLock('lock', 'my-token', 10)).resolves.equals(true);
+			await expect(cache.ttl('lock')).resolves.to.be.greaterThan(9);
+			await expect(cache.releaseLock('lock', 'other-token')).resolves.equals(false);
+			await expect(cache.releaseLock('lock', 'my-token')).resolves.equals(true);
+			await expect(cache.releaseLock('lock', 'my-token')).resolves.equals(false);
+		});
+
+		it('should run a function while holding a lock', async () => {
+			const cache = init<string>();
+
+			await expect(cache.withLock('key', 3, async () => cache.acquire('key', 3))).resolves.toBeUndefined();
+			await expect(cache.acquire('key', 3)).resolves.toBeDefined();
+		});
+	});
+
+	describe('purge', () => {
+		it('should periodically remove expired entries', async () => {
+			await withTmpDir('sqlite-cache-', async (directory) => {
+				const path = join(directory, 'cache.db');
+				const cache = init<string>({ path, purgeInterval: 0.01 });
+				await cache.set('bar', 'baz', 0.001);
+				await cache.set('baz', 'qux', undefined, undefined, ['tag']);
+				await cache.delete('baz');
+				await new Promise((resolve) => setTimeout(resolve, 50));
+
+				const { DatabaseSync } = await import('node:sqlite');
+				const db = new DatabaseSync(path);
+				try {
+					expect(db.prepare('SELECT COUNT(*) AS count FROM cache').get()).to.deep.equal({ count: 0 });
+					expect(db.prepare('SELECT COUNT(*) AS count FROM cache_tags').get()).to.deep.equal({ count: 0 });
+				} finally {
+					db.close();
+				}
+			});
+		});
+	});
+
+	describe('close', () => {
+		it('should persist entries in the database file', async () => {
+			await withTmpDir('sqlite-cache-', async (directory) => {
+				const path = join(directory, 'cache.db');
+				const cache = SqliteCache.init<string>({ path });
+				await cache.set('bar', 'baz');
+				await cache.close();
+
+				await expect(init<string>({ path }).get('bar')).resolves.equals('baz');
+			});
+		});
+	});
+
+	describe('with sessions', () => {
+		it('should persist session data across requests', async () => {
+			const cookies = new InMemoryCookies();
+			const storage = init<Partial<SessionData>>().child('session:');
+			const cookieSettings = { name: 'FOO_SESSION', path: '/' };
+
+			const sessionId = await Session.with(cookies, cookieSettings, storage, async (session) => {
+				(await session).write('foo', 'bar');
+
+				return (await session).id;
+			});
+			await expect(storage.get(sessionId)).resolves.to.deep.equal({ foo: 'bar' });
+
+			await Session.with(cookies, cookieSettings, storage, async (session) => {
+				expect((await session).id).equals(sessionId);
+				expect((await session).read('foo')).equals('bar');
+				(await session).delete('foo');
+			});
+			await expect(storage.get(sessionId)).resolves.to.deep.equal({});
+		});
+	});
+});
@@ -0,0 +1,276 @@
+import { InMemoryCache } from '$lib/server/cache/in-memory';
+import { TieredCache } from '$lib/server/cache/tiered';
+import { asyncIterableToArray } from '$lib/utils/collections';
+import kvjs from '@heyputer/kv.js';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+describe(TieredCache.name, () => {
+	const l1Store = new kvjs();
+	const l2Store = new kvjs();
+	// @ts-expect-error We're deliberately using a private constructor here.
+	const l1 = new InMemoryCache<unknown>({}, l1Store) as InMemoryCache<unknown>;
+	// @ts-expect-error We're deliberately using a private constructor here.
+	const l2 = new InMemoryCache<unknown>({}, l2Store) as InMemoryCache<unknown>;
+
+	beforeEach(() => {
+		l1Store.flushall();
+		l2Store.flushall();
+	});
+
+	it('should create a tiered cache', () => {
+		expect(TieredCache.init(l1, l2)).to.be.an.instanceOf(TieredCache);
+	});
+
+	describe('child', () => {
+		it('should create key-prefixed distinct caches on every tier', async () => {
+			const base = TieredCache.init(l1, l2);
+
+			const foo = base.child('foo:');
+			expect(foo).to.be.an.instanceOf(TieredCache);
+			await expect(foo.set('answer', 42)).resolves.toBeUndefined();
+			await expect(base.get('answer')).resolves.toBeUndefined();
+			await expect(foo.get('answer')).resolves.equals(42);
+			expect(l1Store.keys('*')).to.have.members(['foo:answer']);
+			expect(l2Store.keys('*')).to.have.members(['foo:answer']);
+		});
+	});
+
+	describe('get', () => {
+		const cache = TieredCache.init(l1, l2, { l1TTL: 5 });
+
+		it('should return the value from L1', async () => {
+			await l1.set('foo', 'from l1');
+			await l2.set('foo', 'from l2');
+
+			await expect(cache.get('foo')).resolves.equals('from l1');
+		});
+
+		it('should return the value from L2, back-filling L1', async () => {
+			await l2.setEntry('foo', { value: 'from l2', storedAt: 1000, staleAt: 2000, tags: ['news'] });
+
+			await expect(cache.get('foo')).resolves.equals('from l2');
+			await expect(l1.getEntry('foo')).resolves.deep.equals({
+				value: 'from l2',
+				storedAt: 1000,
+				staleAt: 2000,
+				tags: ['news'],
+			});
+			expect(l1Store.ttl('foo')).to.be.greaterThan(0).and.lessThanOrEqual(5);
+		});
+
+		it('should return undefined when the key is missing from every tier', async () => {
+			await expect(cache.get('foo')).resolves.toBeUndefined();
+			expect(l1Store.keys('*')).to.have.members([]);
+		});
+
+		it('should not back-fill L1 beyond the remaining TTL in L2', async () => {
+			const cache = TieredCache.init(l1, l2);
+			await l2.set('foo', 'from l2', 0.05);
+			await l2.set('bar', 'from l2');
+
+			await expect(cache.get('foo')).resolves.equals('from l2');
+			await expect(cache.get('bar')).resolves.equals('from l2');
+			expect(await l1.ttl('foo'))
+				.to.be.greaterThan(0)
+				.and.lessThanOrEqual(0.05);
+			await expect(l1.ttl('bar')).resolves.equals(Infinity);
+
+			await new Promise((resolve) => setTimeout(resolve, 60));
+			await expect(cache.get('foo')).resolves.toBeUndefined();
+		});
+	});
+
+	describe('set', () => {
+		it('should write through every tier', async () => {
+			const cache = TieredCache.init(l1, l2);
+
+			await expect(cache.set('foo', 'bar')).resolves.toBeUndefined();
+			await expect(l1.get('foo')).resolves.equals('bar');
+			await expect(l2.get('foo')).resolves.equals('bar');
+			expect(l1Store.ttl('foo')).to.equals(-1);
+			expect(l2Store.ttl('foo')).to.equals(-1);
+		});
+
+		it('should cap TTL of L1 entries', async () => {
+			const cache = TieredCache.init(l1, l2, { l1TTL: 5 });
+
+			await expect(cache.set('foo', 'bar', 60)).resolves.toBeUndefined();
+			expect(l1Store.ttl('foo')).to.be.greaterThan(0).and.lessThanOrEqual(5);
+			expect(l2Store.ttl('foo')).to.be.greaterThan(5).and.lessThanOrEqual(60);
+		});
+
+		it('should apply the same jittered TTL to every tier', async () => {
+			const cache = TieredCache.init(l1, l2);
+
+			await expect(cache.set('foo', 'bar', 60, (ttl) => ttl / 2)).resolves.toBeUndefined();
+			expect(l1Store.ttl('foo')).to.be.greaterThan(25).and.lessThanOrEqual(30);
+			expect(l2Store.ttl('foo')).to.be.greaterThan(25).and.lessThanOrEqual(30);
+		});
+	});
+
+	describe('touch', () => {
+		it('should update the expiration in every tier, capping TTL of L1 entries', async () => {
+			const cache = TieredCache.init(l1, l2, { l1TTL: 5 });
+			await cache.set('foo', 'bar', 1);
+
+			await expect(cache.touch('foo', 60)).resolves.equals(true);
+			expect(l1Store.ttl('foo')).to.be.greaterThan(1).and.lessThanOrEqual(5);
+			expect(l2Store.ttl('foo')).to.be.greaterThan(5).and.lessThanOrEqual(60);
+			expect(await cache.ttl('foo'))
+				.to.be.greaterThan(5)
+				.and.lessThanOrEqual(60);
+		});
+
+		it('should return false for keys missing from L2', async () => {
+			const cache = TieredCache.init(l1, l2);
+			await l1.set('foo', 'bar');
+
+			await expect(cache.touch('foo', 60)).resolves.equals(false);
+		});
+	});
+
+	describe('increment', () => {
+		it('should update counters in L2 only, invalidating L1', async () => {
+			const cache = TieredCache.init(l1, l2);
+			await expect(cache.increment('foo', 2)).resolves.equals(2);
+			await expect(cache.get('foo')).resolves.equals(2);
+
+			await expect(cache.increment('foo')).resolves.equals(3);
+			await expect(l1.get('foo')).resolves.toBeUndefined();
+			await expect(cache.get('foo')).resolves.equals(3);
+		});
+	});
+
+	describe('getMany', () => {
+		it('should return values from every tier, back-filling L1', async () => {
+			const cache = TieredCache.init(l1, l2);
+			await l1.set('foo', 'from l1');
+			await l2.set('foo', 'stale in l2');
+			await l2.set('bar', 'from l2');
+
+			const values = await cache.getMany(['foo', 'missing', 'bar']);
+			expect([...values]).to.deep.equal([
+				['foo', 'from l1'],
+				['bar', 'from l2'],
+			]);
+			await expect(l1.get('bar')).resolves.equals('from l2');
+		});
+
+		it('should not back-fill L1 beyond the remaining TTL in L2', async () => {
+			const cache = TieredCache.init(l1, l2);
+			await l2.set('foo', 'from l2', 0.05);
+
+			await expect(cache.getMany(['foo'])).resolves.to.deep.equal(new Map([['foo', 'from l2']]));
+			expect(await l1.ttl('foo'))
+				.to.be.greaterThan(0)
+				.and.lessThanOrEqual(0.05);
+
+			await new Promise((resolve) => setTimeout(resolve, 60));
+			await expect(cache.getMany(['foo'])).resolves.to.deep.equal(new Map());
+		});
+	});
+
+	describe('setMany', () => {
+		it('should write through every tier', async () => {
+			const cache = TieredCache.init(l1, l2, { l1TTL: 5 });
+
+			await expect(
+				cache.setMany(
+					[
+						['foo', 'bar'],
+						['bar', 'baz'],
+					],
+					60,
+				),
+			).resolves.toBeUndefined();
+			expect(l1Store.keys('*')).to.have.members(['foo', 'bar']);
+			expect(l2Store.keys('*')).to.have.members(['foo', 'bar']);
+			expect(l1Store.ttl('foo')).to.be.greaterThan(0).and.lessThanOrEqual(5);
+			expect(l2Store.ttl('foo')).to.be.greaterThan(5).and.lessThanOrEqual(60);
+		});
+	});
+
+	describe('deleteMany', () => {
+		it('should delete the keys from every tier', async () => {
+			const cache = TieredCache.init(l1, l2);
+			await cache.set('foo', 'bar');
+			await cache.set('bar', 'baz');
+			await cache.set('baz', 'qux');
+
+			await expect(cache.deleteMany(['foo', 'bar'])).resolves.toBeUndefined();
+			expect(l1Store.keys('*')).to.have.members(['baz']);
+			expect(l2Store.keys('*')).to.have.members(['baz']);
+		});
+	});
+
+	describe('delete', () => {
+		it('should delete the key from every tier', async () => {
+			const cache = TieredCache.init(l1, l2);
+			await cache.set('foo', 'bar');
+			await cache.set('bar', 'baz');
+
+			await expect(cache.delete('foo')).resolves.toBeUndefined();
+			expect(l1Store.keys('*')).to.have.members(['bar']);
+			expect(l2Store.keys('*')).to.have.members(['bar']);
+		});
+	});
+
+	describe('keys', () => {
+		it('should list the keys in L2', async () => {
+			const cache = TieredCache.init(l1, l2);
+			await l1.set('foo:1', 'bar');
+			await l2.set('foo:2', 'bar');
+			await l2.set('bar:1', 'baz');
+
+			await expect(asyncIterableToArray(cache.keys('foo:'))).resolves.to.have.members(['foo:2']);
+		});
+	});
+
+	describe('clear', () => {
+		it('should clear every tier', async () => {
+			const cache = TieredCache.init(l1, l2);
+			await cache.set('foo:1', 'bar');
+			await cache.set('bar:1', 'baz');
+
+			await expect(cache.clear('foo:')).resolves.toBeUndefined();
+			expect(l1Store.keys('*')).to.have.members(['bar:1']);
+			expect(l2Store.keys('*')).to.have.members(['bar:1']);
+		});
+	});
+
+	describe('clearPattern', () => {
+		it('should clear every tier', async () => {
+			const cache = TieredCache.init(l1, l2);
+			await cache.set('foo:1', 'bar');
+			await cache.set('bar:1', 'baz');
+			await cache.set('bar', 'baz');
+
+			await expect(cache.clearPattern('*:1')).resolves.toBeUndefined();
+			expect(l1Store.keys('*')).to.have.members(['bar']);
+			expect(l2Store.keys('*')).to.have.members(['bar']);
+		});
+	});
+
+	describe('clearTags', () => {
+		it('should clear tagged entries from every tier', async () => {
+			const cache = TieredCache.init(l1, l2);
+			await cache.set('foo', 'bar', undefined, undefined, ['news']);
+			await cache.set('bar', 'baz', undefined, undefined, ['events']);
+
+			await expect(cache.clearTags('news')).resolves.toBeUndefined();
+			await expect(l1.get('foo')).resolves.toBeUndefined();
+			await expect(l2.get('foo')).resolves.toBeUndefined();
+			await expect(cache.get('bar')).resolves.equals('baz');
+		});
+
+		it('should clear tagged entries back-filled into L1', async () => {
+			const cache = TieredCache.init(l1, l2);
+			await l2.set('foo', 'bar', undefined, undefined, ['news']);
+			await expect(cache.get('foo')).resolves.equals('bar');
+
+			await expect(cache.clearTags('news')).resolves.toBeUndefined();
+			await expect(l1.get('foo')).resolves.toBeUndefined();
+			await expect(cache.get('foo')).resolves.toBeUndefined();
+		});
+	});
+});
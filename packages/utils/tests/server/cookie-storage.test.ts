@@ -0,0 +1,140 @@
+import { CookieSizeError, CookieStorage } from '$lib/server/cookie-storage';
+import { randomBytes } from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InMemoryCookies } from '../test-cookies';
+
+/**
+ * Parse `Set-Cookie` headers into a map of cookie values.
+ *
+ * @param headers Response headers.
+ */
+const setCookies = (headers: Headers): Map<string, string> =>
+	new Map(
+		headers.getSetCookie().map((header) => {
+			const [name, value] = header.split(';')[0].split('=');
+
+			return [decodeURIComponent(name), decodeURIComponent(value)];
+		}),
+	);
+
+describe(CookieStorage.name, () => {
+	const cookies = new InMemoryCookies();
+	const init = (options?: { maxCookieSize?: number; maxChunks?: number; secrets?: string | string[] }) =>
+		CookieStorage.init<{ foo: string; date?: Date }>(cookies, {
+			name: 'DATA',
+			cookieSettings: { path: '/' },
+			secrets: 'secret',
+			...options,
+		});
+
+	/**
+	 * Send cookies set by a storage back, as a browser would in a following request.
+	 *
+	 * @param storage Storage.
+	 */
+	const roundTrip = (storage: CookieStorage<unknown>): Map<string, string> => {
+		const headers = new Headers();
+		storage.applyTo(headers);
+		const values = setCookies(headers);
+		for (const [name, value] of values) {
+			if (value) {
+				cookies.set(name, value);
+			} else {
+				cookies.delete(name);
+			}
+		}
+
+		return values;
+	};
+
+	beforeEach(() => {
+		cookies.clear();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should store encrypted values bound to their key', async () => {
+		const storage = init();
+		await expect(storage.set('session', { foo: 'bar', date: new Date(0) })).resolves.toBeUndefined();
+
+		const values = roundTrip(storage);
+		expect([...values.keys()]).to.deep.equal(['DATA.0']);
+		expect(values.get('DATA.0')).to.not.include('bar');
+
+		const next = init();
+		await expect(next.get('session')).resolves.to.deep.equal({ foo: 'bar', date: new Date(0) });
+		await expect(next.get('other')).resolves.toBeUndefined();
+		await expect(init({ secrets: 'other secret' }).get('session')).resolves.toBeUndefined();
+		await expect(init({ secrets: ['other secret', 'secret'] }).get('session')).resolves.to.deep.equal({
+			foo: 'bar',
+			date: new Date(0),
+		});
+	});
+
+	it('should split large values into chunks, removing leftover chunks when data shrinks', async () => {
+		const storage = init({ maxCookieSize: 100 });
+		await storage.set('session', { foo: randomBytes(100).toString('hex') });
+		const values = roundTrip(storage);
+		expect(values.size).to.be.greaterThan(2);
+		for (const [name, value] of values) {
+			expect(cookies.serialize(name, value).length).to.be.at.most(100);
+		}
+
+		const next = init({ maxCookieSize: 100 });
+		expect((await next.get('session'))?.foo).to.have.length(200);
+		await next.set('session', { foo: 'bar' });
+		const shrunk = [...roundTrip(next).values()];
+		expect(shrunk).to.have.length(values.size);
+		expect(shrunk.filter((value) => value !== '').length).to.be.lessThan(values.size);
+		await expect(init().get('session')).resolves.to.deep.equal({ foo: 'bar' });
+	});
+
+	it('should throw a clear error when data is too large', async () => {
+		const storage = init({ maxCookieSize: 100, maxChunks: 2 });
+
+		await expect(storage.set('session', { foo: randomBytes(150).toString('hex') })).rejects.toThrow(CookieSizeError);
+		expect(roundTrip(storage).size).equals(0);
+	});
+
+	it('should treat tampered or expired data as missing', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		const storage = init();
+		await storage.set('session', { foo: 'bar' }, 10);
+		roundTrip(storage);
+
+		await expect(init().get('session')).resolves.to.deep.equal({ foo: 'bar' });
+		vi.advanceTimersByTime(10_000);
+		await expect(init().get('session')).resolves.toBeUndefined();
+
+		cookies.set('DATA.0', 'not even encrypted');
+		await expect(init().get('session')).resolves.toBeUndefined();
+	});
+
+	it('should extend expiration of data', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		const storage = init();
+		await storage.set('session', { foo: 'bar' }, 10);
+		roundTrip(storage);
+
+		vi.advanceTimersByTime(5_000);
+		const next = init();
+		await expect(next.touch('other', 10)).resolves.equals(false);
+		await expect(next.touch('session', 10)).resolves.equals(true);
+		roundTrip(next);
+
+		vi.advanceTimersByTime(5_000);
+		await expect(init().get('session')).resolves.to.deep.equal({ foo: 'bar' });
+	});
+
+	it('should only delete data bound to the key', async () => {
+		const storage = init();
+		await storage.set('new-session', { foo: 'bar' });
+		await storage.delete('old-session');
+		await expect(storage.get('new-session')).resolves.to.deep.equal({ foo: 'bar' });
+
+		await storage.delete('new-session');
+		await expect(storage.get('new-session')).resolves.toBeUndefined();
+	});
+});
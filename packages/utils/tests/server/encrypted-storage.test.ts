@@ -0,0 +1,74 @@
+import { EncryptedStorage } from '$lib/server/encrypted-storage';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { InMemoryStorage } from '../test-storage';
+
+describe(EncryptedStorage.name, () => {
+	const inner = new InMemoryStorage<string>();
+	beforeEach(() => {
+		inner.clear();
+	});
+
+	it('should store encrypted values', async () => {
+		const storage = EncryptedStorage.init<{ date: Date }>(inner, { secrets: 'secret' });
+
+		await expect(storage.set('foo', { date: new Date(0) })).resolves.toBeUndefined();
+		expect(inner.entries()).to.have.length(1);
+		expect(inner.entries()[0][1]).to.be.a('string').and.not.include('1970');
+		await expect(storage.get('foo')).resolves.to.deep.equal({ date: new Date(0) });
+		await expect(storage.get('missing')).resolves.toBeUndefined();
+	});
+
+	it('should read values encrypted before a key rotation, and re-encrypt them on write', async () => {
+		const previous = EncryptedStorage.init<string>(inner, { secrets: 'old secret' });
+		const current = EncryptedStorage.init<string>(inner, { secrets: ['new secret', 'old secret'] });
+		await previous.set('foo', 'bar');
+
+		await expect(current.get('foo')).resolves.equals('bar');
+		await current.set('foo', 'bar');
+		await expect(previous.get('foo')).resolves.toBeUndefined();
+		await expect(EncryptedStorage.init(inner, { secrets: 'new secret' }).get('foo')).resolves.equals('bar');
+	});
+
+	it('should treat tampered values as missing', async () => {
+		const storage = EncryptedStorage.init<string>(inner, { secrets: 'secret' });
+		await storage.set('foo', 'bar');
+		const data = Buffer.from(inner.entries()[0][1], 'base64url');
+		data[data.length - 1] ^= 0xff;
+		await inner.set('foo', data.toString('base64url'));
+		await inner.set('bar', 'not even base64');
+
+		await expect(storage.get('foo')).resolves.toBeUndefined();
+		await expect(storage.get('bar')).resolves.toBeUndefined();
+	});
+
+	it('should treat values moved to a different key as missing', async () => {
+		const storage = EncryptedStorage.init<string>(inner, { secrets: 'secret' });
+		await storage.set('foo', 'bar');
+		await storage.set('bar', 'baz');
+		const [[, foo], [, bar]] = inner.entries();
+		await inner.set('foo', bar);
+		await inner.set('bar', foo);
+
+		await expect(storage.get('foo')).resolves.toBeUndefined();
+		await expect(storage.get('bar')).resolves.toBeUndefined();
+	});
+
+	it('should pass TTL through to the wrapped storage', async () => {
+		const storage = EncryptedStorage.init<string>(inner, { secrets: 'secret' });
+		await storage.set('foo', 'bar', 10);
+		expect(inner.ttl('foo')).equals(10);
+
+		await expect(storage.touch('foo', 20)).resolves.equals(true);
+		await expect(storage.touch('missing', 20)).resolves.equals(false);
+		expect(inner.ttl('foo')).equals(20);
+		await expect(storage.get('foo')).resolves.equals('bar');
+	});
+
+	it('should delete values', async () => {
+		const storage = EncryptedStorage.init<string>(inner, { secrets: 'secret' });
+		await storage.set('foo', 'bar');
+
+		await expect(storage.delete('foo')).resolves.toBeUndefined();
+		expect(inner.entries()).to.have.length(0);
+	});
+});
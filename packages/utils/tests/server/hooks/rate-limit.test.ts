@@ -0,0 +1,138 @@
+import { InMemoryCache } from '$lib/server/cache/in-memory';
+import { buildRateLimit } from '$lib/server/hooks/rate-limit';
+import type { RequestEvent } from '@sveltejs/kit';
+import pino from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { testTransportFactory } from '../../test-logger';
+
+/**
+ * Build a minimal request event.
+ *
+ * @param routeId Route ID.
+ * @param method HTTP method.
+ * @param ip Client IP address.
+ */
+const buildEvent = (routeId: string, method = 'GET', ip = '127.0.0.1') => {
+	const headers = new Map<string, string>();
+	const event = {
+		route: { id: routeId },
+		request: new Request(`http://example.com${routeId}`, { method }),
+		locals: {},
+		getClientAddress: () => ip,
+		setHeaders: (values: Record<string, string>) => {
+			for (const [name, value] of Object.entries(values)) {
+				headers.set(name, value);
+			}
+		},
+	} as unknown as RequestEvent;
+
+	return { event, headers };
+};
+
+const resolve = async () => new Response('OK');
+
+describe(buildRateLimit.name, () => {
+	const cache = InMemoryCache.init<unknown>({});
+	beforeEach(async () => {
+		await cache.clear();
+	});
+
+	it('should let requests through until the limit is exceeded', async () => {
+		const handle = buildRateLimit(cache, { limit: 2, window: 60 });
+
+		const first = buildEvent('/');
+		expect((await handle({ event: first.event, resolve })).status).equals(200);
+		expect(first.headers.get('RateLimit-Limit')).equals('2');
+		expect(first.headers.get('RateLimit-Remaining')).equals('1');
+		expect(first.headers.get('RateLimit-Policy')).equals('2;w=60');
+
+		const second = buildEvent('/');
+		expect((await handle({ event: second.event, resolve })).status).equals(200);
+		expect(second.headers.get('RateLimit-Remaining')).equals('0');
+
+		const res = await handle({ event: buildEvent('/').event, resolve });
+		expect(res.status).equals(429);
+		expect(res.headers.get('RateLimit-Remaining')).equals('0');
+		expect(Number(res.headers.get('Retry-After')))
+			.to.be.greaterThan(0)
+			.and.at.most(60);
+
+		const other = await handle({ event: buildEvent('/', 'GET', '10.0.0.1').event, resolve });
+		expect(other.status).equals(200);
+	});
+
+	it('should apply the first matching rule, counting requests separately', async () => {
+		const handle = buildRateLimit(cache, {
+			limit: 1,
+			window: 60,
+			rules: [
+				{ routeId: '/health', limit: Infinity },
+				{ routeId: '/api/[id]', method: ['POST', 'PUT'], limit: 2 },
+			],
+		});
+
+		for (let i = 0; i < 3; i++) {
+			expect((await handle({ event: buildEvent('/health').event, resolve })).status).equals(200);
+		}
+		expect((await handle({ event: buildEvent('/api/[id]', 'POST').event, resolve })).status).equals(200);
+		expect((await handle({ event: buildEvent('/api/[id]', 'PUT').event, resolve })).status).equals(200);
+		expect((await handle({ event: buildEvent('/api/[id]', 'POST').event, resolve })).status).equals(429);
+		expect((await handle({ event: buildEvent('/api/[id]').event, resolve })).status).equals(200);
+		expect((await handle({ event: buildEvent('/').event, resolve })).status).equals(429);
+	});
+
+	it('should count requests in the previous window with the sliding window algorithm', async () => {
+		const handle = buildRateLimit(cache, { limit: 5, window: 60, algorithm: 'sliding-window' });
+		vi.useFakeTimers({ toFake: ['Date'] });
+		try {
+			// A quarter into the window: requests in the previous window weigh 0.75.
+			vi.setSystemTime(100 * 60_000 + 15_000);
+			await cache.set('default:ip:127.0.0.1:99', 4);
+
+			const first = buildEvent('/');
+			expect((await handle({ event: first.event, resolve })).status).equals(200);
+			expect(first.headers.get('RateLimit-Remaining')).equals('1');
+			expect(first.headers.get('RateLimit-Reset')).equals('45');
+			expect((await handle({ event: buildEvent('/').event, resolve })).status).equals(200);
+			expect((await handle({ event: buildEvent('/').event, resolve })).status).equals(429);
+			await expect(cache.get('default:ip:127.0.0.1:100')).resolves.equals(3);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it('should key requests with a custom function, falling back to client IP address', async () => {
+		const handle = buildRateLimit(cache, {
+			limit: 1,
+			window: 60,
+			key: (event) => event.request.headers.get('X-Api-Key') ?? undefined,
+		});
+
+		const withKey = buildEvent('/');
+		withKey.event.request.headers.set('X-Api-Key', 'secret');
+		expect((await handle({ event: withKey.event, resolve })).status).equals(200);
+		expect((await handle({ event: buildEvent('/').event, resolve })).status).equals(200);
+		await expect(cache.get(`default:secret:${Math.floor(Date.now() / 60_000)}`)).resolves.equals(1);
+	});
+
+	it('should let requests through if counters cannot be updated', async () => {
+		const dest = testTransportFactory();
+		const reason = new Error('Cache is down');
+		const increment = vi.spyOn(cache, 'increment').mockRejectedValue(reason);
+		try {
+			const handle = buildRateLimit(cache, { limit: 1, window: 60, logger: pino(dest) });
+
+			for (let i = 0; i < 2; i++) {
+				const { event, headers } = buildEvent('/');
+				expect((await handle({ event, resolve })).status).equals(200);
+				expect(headers.size).equals(0);
+			}
+			expect(increment).toHaveBeenCalledTimes(2);
+			expect(dest.lastLevel).to.equal(pino.levels.values['error']);
+			expect(dest.lastMsg).to.equal('Could not update rate limit counters, letting request through');
+			expect(dest.lastObj).to.deep.equal({ err: reason });
+		} finally {
+			increment.mockRestore();
+		}
+	});
+});
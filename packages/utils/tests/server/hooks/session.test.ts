@@ -0,0 +1,109 @@
+import { CookieSizeError } from '$lib/server/cookie-storage';
+import { buildCookieSession } from '$lib/server/hooks/session';
+import type { RequestEvent } from '@sveltejs/kit';
+import pino from 'pino';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { InMemoryCookies } from '../../test-cookies';
+import { testTransportFactory } from '../../test-logger';
+
+describe(buildCookieSession.name, () => {
+	const cookies = new InMemoryCookies();
+	beforeEach(() => {
+		cookies.clear();
+	});
+
+	/**
+	 * Handle a request, sending data cookies set in the response back as a browser would in a following request.
+	 *
+	 * @param handle Handle.
+	 * @param callback Callback invoked with the session while resolving the request.
+	 * @param respond Function generating the response.
+	 */
+	const request = async (
+		handle: ReturnType<typeof buildCookieSession>,
+		callback: (session: App.Locals['session']) => Promise<void>,
+		respond = () => new Response('OK'),
+	): Promise<Response> => {
+		const event = { cookies, locals: {} } as unknown as RequestEvent;
+		const response = await handle({
+			event,
+			resolve: async () => {
+				await callback(event.locals.session);
+
+				return respond();
+			},
+		});
+		for (const header of response.headers.getSetCookie()) {
+			const [name, value] = header.split(';')[0].split('=').map(decodeURIComponent);
+			cookies.set(name, value);
+		}
+
+		return response;
+	};
+
+	it('should store session data in encrypted cookies', async () => {
+		const handle = buildCookieSession(
+			{ name: 'FOO_SESSION', path: '/', secrets: 'signing secret' },
+			{ secrets: 'secret' },
+		);
+
+		const first = await request(handle, async (session) => {
+			(await session).write('foo', 'bar');
+		});
+		expect(first.headers.getSetCookie()).to.have.length(1);
+		expect(first.headers.getSetCookie()[0]).to.match(/^FOO_SESSION\.data\.0=/);
+
+		await request(handle, async (session) => {
+			expect((await session).isNew).equal(false);
+			expect((await session).consume('foo')).equals('bar');
+		});
+		await request(handle, async (session) => {
+			expect((await session).check('foo')).equal(false);
+		});
+	});
+
+	it('should set cookies on responses with immutable headers', async () => {
+		const handle = buildCookieSession({ name: 'FOO_SESSION', path: '/' }, { secrets: 'secret' });
+
+		const response = await request(
+			handle,
+			async (session) => {
+				(await session).write('foo', 'bar');
+			},
+			() => Response.redirect('http://localhost/next', 303),
+		);
+		expect(response.status).equals(303);
+		expect(response.headers.get('location')).equals('http://localhost/next');
+		expect(response.headers.getSetCookie()).to.have.length(1);
+
+		await request(handle, async (session) => {
+			expect((await session).read('foo')).equals('bar');
+		});
+	});
+
+	it('should log data too large to be stored in cookies, keeping previous data and the response', async () => {
+		const dest = testTransportFactory();
+		const handle = buildCookieSession(
+			{ name: 'FOO_SESSION', path: '/' },
+			{ secrets: 'secret', maxChunks: 1 },
+			pino(dest),
+		);
+		await request(handle, async (session) => {
+			(await session).write('foo', 'bar');
+		});
+
+		const response = await request(handle, async (session) => {
+			(await session).write('foo', 'x'.repeat(5000));
+		});
+		expect(response.status).equals(200);
+		await expect(response.text()).resolves.equals('OK');
+		expect(response.headers.getSetCookie()).to.have.length(0);
+		expect(dest.lastLevel).to.equal(pino.levels.values['warn']);
+		expect(dest.lastMsg).to.equal('Session data too large to be stored in cookies, discarding changes');
+		expect(dest.lastObj).to.have.property('err').that.is.instanceOf(CookieSizeError);
+
+		await request(handle, async (session) => {
+			expect((await session).read('foo')).equals('bar');
+		});
+	});
+});
@@ -1,5 +1,5 @@
-import { Session, type SessionData } from '$lib/server';
-import { beforeEach, describe, expect, it } from 'vitest';
+import { Session, signValue, UnsupportedOperationError, type SessionData } from '$lib/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { InMemoryCookies } from '../test-cookies';
 import { InMemoryStorage } from '../test-storage';
 
@@ -342,4 +342,340 @@ describe(Session.name, () => {
 			expect(session.isNew).equal(false);
 		});
 	});
+
+	describe('regenerate', () => {
+		const cookies = new InMemoryCookies();
+		const storage = new InMemoryStorage<Partial<SessionData>>();
+		beforeEach(() => {
+			cookies.clear();
+			storage.clear();
+		});
+
+		it('should move data to a new session ID, updating the cookie', async () => {
+			cookies.set('FOO_SESSION', 'foobarbaz');
+			storage.set('foobarbaz', { foo: 'bar' });
+
+			const sessionId = await Session.with(cookies, { name: 'FOO_SESSION', path: '/' }, storage, async (session) => {
+				const regenerated = (await session).regenerate();
+				expect(regenerated.id).not.equals('foobarbaz');
+				expect(regenerated.read('foo')).equals('bar');
+				expect(regenerated.dirty).equal(true);
+				expect(cookies.getAll()).has.deep.members([{ name: 'FOO_SESSION', value: regenerated.id }]);
+
+				return regenerated.id;
+			});
+
+			expect(storage.entries()).has.deep.members([[sessionId, { foo: 'bar' }]]);
+		});
+
+		it('should not delete anything when regenerating a new session', async () => {
+			storage.set('foobarbaz', { foo: 'bar' });
+
+			const sessionId = await Session.with(cookies, { name: 'FOO_SESSION', path: '/' }, storage, async (session) => {
+				const oldId = (await session).id;
+				(await session).regenerate();
+				expect((await session).id).not.equals(oldId);
+
+				return (await session).id;
+			});
+
+			expect(cookies.getAll()).has.deep.members([{ name: 'FOO_SESSION', value: sessionId }]);
+			expect(storage.entries()).has.deep.members([
+				['foobarbaz', { foo: 'bar' }],
+				[sessionId, {}],
+			]);
+		});
+	});
+
+	describe('expiry', () => {
+		const cookies = new InMemoryCookies();
+		const storage = new InMemoryStorage<Partial<SessionData>>();
+		const cookieSettings = { name: 'FOO_SESSION', path: '/' };
+		beforeEach(() => {
+			cookies.clear();
+			storage.clear();
+			vi.useFakeTimers({ toFake: ['Date'] });
+		});
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it('should store new sessions with a TTL, and set cookie max age', async () => {
+			const sessionId = await Session.with(
+				cookies,
+				cookieSettings,
+				storage,
+				async (session) => (await session).id,
+				undefined,
+				{ idleTimeout: 600 },
+			);
+
+			expect(storage.ttl(sessionId)).equals(600);
+			expect(cookies.options('FOO_SESSION')).to.deep.equal({ path: '/', name: 'FOO_SESSION', maxAge: 600 });
+		});
+
+		it('should extend sessions on activity even if data has not changed', async () => {
+			cookies.set('FOO_SESSION', 'foobarbaz');
+			await storage.set('foobarbaz', { foo: 'bar' }, 10);
+
+			await Session.with(
+				cookies,
+				cookieSettings,
+				storage,
+				async (session) => expect((await session).dirty).equal(false),
+				undefined,
+				{ idleTimeout: 600 },
+			);
+
+			expect(storage.ttl('foobarbaz')).equals(600);
+			expect(storage.entries()).has.deep.members([['foobarbaz', { foo: 'bar' }]]);
+			expect(cookies.options('FOO_SESSION')).to.have.property('maxAge', 600);
+		});
+
+		it('should not extend sessions without idle timeout', async () => {
+			cookies.set('FOO_SESSION', 'foobarbaz');
+			await storage.set('foobarbaz', { foo: 'bar' }, 10);
+
+			await Session.with(cookies, cookieSettings, storage, async (session) => (await session).id);
+
+			expect(storage.ttl('foobarbaz')).equals(10);
+			expect(cookies.options('FOO_SESSION')).toBeUndefined();
+		});
+
+		it('should cap TTL to the remaining session lifetime, and expire sessions exceeding it', async () => {
+			const options = { idleTimeout: 600, absoluteTimeout: 1000 };
+			const sessionId = await Session.with(
+				cookies,
+				cookieSettings,
+				storage,
+				async (session) => (await session).write('foo', 'bar').id,
+				undefined,
+				options,
+			);
+			expect(storage.ttl(sessionId)).equals(600);
+			expect(storage.entries()).has.deep.members([[sessionId, { data: { foo: 'bar' }, createdAt: Date.now() }]]);
+
+			vi.advanceTimersByTime(500_000);
+			await Session.with(
+				cookies,
+				cookieSettings,
+				storage,
+				async (session) => {
+					expect((await session).id).equals(sessionId);
+					expect((await session).read('foo')).equals('bar');
+					expect((await session).check('__createdAt')).equal(false);
+				},
+				undefined,
+				options,
+			);
+			expect(storage.ttl(sessionId)).equals(500);
+			expect(cookies.options('FOO_SESSION')).to.have.property('maxAge', 500);
+
+			vi.advanceTimersByTime(500_000);
+			const newSessionId = await Session.with(
+				cookies,
+				cookieSettings,
+				storage,
+				async (session) => {
+					expect((await session).isNew).equal(true);
+					expect((await session).read('foo')).toBeUndefined();
+
+					return (await session).id;
+				},
+				undefined,
+				options,
+			);
+			expect(newSessionId).not.equals(sessionId);
+			expect(cookies.getAll()).has.deep.members([{ name: 'FOO_SESSION', value: newSessionId }]);
+		});
+
+		it('should destroy sessions exceeding their lifetime while handling a request', async () => {
+			const options = { absoluteTimeout: 1000 };
+			const sessionId = await Session.with(
+				cookies,
+				cookieSettings,
+				storage,
+				async (session) => (await session).write('foo', 'bar').id,
+				undefined,
+				options,
+			);
+
+			vi.advanceTimersByTime(999_500);
+			await Session.with(
+				cookies,
+				cookieSettings,
+				storage,
+				async (session) => {
+					expect((await session).id).equals(sessionId);
+					vi.advanceTimersByTime(1000);
+					(await session).write('foo', 'baz');
+				},
+				undefined,
+				options,
+			);
+
+			expect(storage.entries()).has.deep.members([]);
+		});
+
+		it('should rewrite sessions to extend them when storage does not support touching', async () => {
+			const storage = new (class extends InMemoryStorage<Partial<SessionData>> {
+				override async touch(): Promise<boolean> {
+					throw new UnsupportedOperationError('touch', 'TestStorage');
+				}
+			})();
+			cookies.set('FOO_SESSION', 'foobarbaz');
+			await storage.set('foobarbaz', { foo: 'bar' }, 10);
+
+			await Session.with(cookies, cookieSettings, storage, async (session) => (await session).id, undefined, {
+				idleTimeout: 600,
+			});
+
+			expect(storage.ttl('foobarbaz')).equals(600);
+			expect(storage.entries()).has.deep.members([['foobarbaz', { foo: 'bar' }]]);
+		});
+	});
+
+	describe('lazy', () => {
+		const cookies = new InMemoryCookies();
+		const storage = new InMemoryStorage<Partial<SessionData>>();
+		const cookieSettings = { name: 'FOO_SESSION', path: '/' };
+		beforeEach(() => {
+			cookies.clear();
+			storage.clear();
+		});
+
+		it('should neither set cookie nor store new sessions that are never written', async () => {
+			await Session.with(
+				cookies,
+				cookieSettings,
+				storage,
+				async (session) => {
+					expect((await session).isNew).equal(true);
+					expect((await session).dirty).equal(false);
+					expect((await session).read('foo')).toBeUndefined();
+				},
+				undefined,
+				{ lazy: true, idleTimeout: 600 },
+			);
+
+			expect(cookies.getAll()).has.deep.members([]);
+			expect(storage.entries()).has.deep.members([]);
+		});
+
+		it('should neither set cookie nor store new sessions when missing keys are deleted', async () => {
+			await Session.with(
+				cookies,
+				cookieSettings,
+				storage,
+				async (session) => {
+					expect((await session).consume('foo')).toBeUndefined();
+					(await session).delete('bar').clear();
+					expect((await session).dirty).equal(false);
+				},
+				undefined,
+				{ lazy: true },
+			);
+
+			expect(cookies.getAll()).has.deep.members([]);
+			expect(storage.entries()).has.deep.members([]);
+		});
+
+		it('should set cookie and store new sessions on first write', async () => {
+			const sessionId = await Session.with(
+				cookies,
+				cookieSettings,
+				storage,
+				async (session) => {
+					expect(cookies.getAll()).has.deep.members([]);
+					(await session).write('foo', 'bar');
+					expect((await session).isNew).equal(true);
+					expect((await session).dirty).equal(true);
+					expect(cookies.getAll()).has.deep.members([{ name: 'FOO_SESSION', value: (await session).id }]);
+
+					return (await session).id;
+				},
+				undefined,
+				{ lazy: true },
+			);
+
+			expect(storage.entries()).has.deep.members([[sessionId, { foo: 'bar' }]]);
+		});
+
+		it('should load existing sessions as usual', async () => {
+			cookies.set('FOO_SESSION', 'foobarbaz');
+			await storage.set('foobarbaz', { foo: 'bar' });
+
+			await Session.with(
+				cookies,
+				cookieSettings,
+				storage,
+				async (session) => {
+					expect((await session).isNew).equal(false);
+					expect((await session).read('foo')).equals('bar');
+				},
+				undefined,
+				{ lazy: true },
+			);
+
+			expect(cookies.getAll()).has.deep.members([{ name: 'FOO_SESSION', value: 'foobarbaz' }]);
+		});
+	});
+
+	describe('signed cookies', () => {
+		const cookies = new InMemoryCookies();
+		const storage = new InMemoryStorage<Partial<SessionData>>();
+		beforeEach(() => {
+			cookies.clear();
+			storage.clear();
+		});
+
+		it('should sign cookies of new sessions', async () => {
+			const cookieSettings = { name: 'FOO_SESSION', path: '/', secrets: 'secret' };
+			const sessionId = await Session.with(cookies, cookieSettings, storage, async (session) => (await session).id);
+
+			expect(cookies.getAll()).has.deep.members([{ name: 'FOO_SESSION', value: signValue(sessionId, 'secret') }]);
+			expect(cookies.options('FOO_SESSION')).to.deep.equal({ name: 'FOO_SESSION', path: '/' });
+			expect(storage.entries()).has.deep.members([[sessionId, {}]]);
+		});
+
+		it('should reject forged or unsigned cookies without reading storage', async () => {
+			const storage = new (class extends InMemoryStorage<Partial<SessionData>> {
+				get(): Promise<never> {
+					expect.unreachable();
+				}
+			})();
+			const cookieSettings = { name: 'FOO_SESSION', path: '/', secrets: 'secret' };
+
+			for (const forged of ['foobarbaz', signValue('foobarbaz', 'other secret'), 'foobarbaz.']) {
+				cookies.set('FOO_SESSION', forged);
+				const sessionId = await Session.with(cookies, cookieSettings, storage, async (session) => {
+					expect((await session).isNew).equal(true);
+
+					return (await session).id;
+				});
+
+				expect(sessionId).not.equals('foobarbaz');
+				expect(cookies.getAll()).has.deep.members([{ name: 'FOO_SESSION', value: signValue(sessionId, 'secret') }]);
+			}
+		});
+
+		it('should accept cookies signed with previous secrets, and re-sign them', async () => {
+			cookies.set('FOO_SESSION', signValue('foobarbaz', 'old secret'));
+			await storage.set('foobarbaz', { foo: 'bar' });
+			const cookieSettings = { name: 'FOO_SESSION', path: '/', secrets: ['new secret', 'old secret'] };
+
+			await Session.with(cookies, cookieSettings, storage, async (session) => {
+				expect((await session).id).equals('foobarbaz');
+				expect((await session).read('foo')).equals('bar');
+			});
+
+			expect(cookies.getAll()).has.deep.members([{ name: 'FOO_SESSION', value: signValue('foobarbaz', 'new secret') }]);
+		});
+
+		it('should require at least a secret', async () => {
+			const cookieSettings = { name: 'FOO_SESSION', path: '/', secrets: [] };
+
+			await expect(Session.with(cookies, cookieSettings, storage, () => undefined)).rejects.toThrow(TypeError);
+		});
+	});
 });
@@ -1,4 +1,4 @@
-import { computeHash, secureId, withTmpDir } from '$lib/server/utils';
+import { computeHash, secureId, signValue, unsignValue, withTmpDir } from '$lib/server/utils';
 import { existsSync, statSync } from 'node:fs';
 import { basename } from 'node:path';
 import { describe, expect, it } from 'vitest';
@@ -89,3 +89,22 @@ describe(computeHash.name, () => {
 		}),
 	);
 });
+
+describe(unsignValue.name, () => {
+	it('should verify values signed with any of the secrets', () => {
+		const signed = signValue('foo.bar', 'old secret');
+		expect(signed).to.match(/^foo\.bar\.[\w-]+$/);
+
+		expect(unsignValue(signed, ['old secret'])).to.deep.equal({ value: 'foo.bar', secretIdx: 0 });
+		expect(unsignValue(signed, ['new secret', 'old secret'])).to.deep.equal({ value: 'foo.bar', secretIdx: 1 });
+		expect(unsignValue(signed, ['new secret'])).toBeUndefined();
+	});
+
+	it('should reject unsigned or tampered values', () => {
+		const signed = signValue('foo', 'secret');
+
+		expect(unsignValue('foo', ['secret'])).toBeUndefined();
+		expect(unsignValue(signed.replace('foo', 'bar'), ['secret'])).toBeUndefined();
+		expect(unsignValue(signed.slice(0, -1), ['secret'])).toBeUndefined();
+	});
+});
@@ -2,6 +2,7 @@ import type { Cookies } from '@sveltejs/kit';
 
 export class InMemoryCookies implements Cookies {
 	#cookies = new Map<string, string>();
+	#options = new Map<string, Parameters<Cookies['set']>[2] | undefined>();
 
 	get(name: string): string | undefined {
 		return this.#cookies.get(name);
@@ -11,12 +12,18 @@ export class InMemoryCookies implements Cookies {
 		return [...this.#cookies.entries()].map(([name, value]) => ({ name, value }));
 	}
 
-	set(name: string, value: string): void {
+	set(name: string, value: string, options?: Parameters<Cookies['set']>[2]): void {
 		this.#cookies.set(name, value);
+		this.#options.set(name, options);
 	}
 
 	delete(name: string): void {
 		this.#cookies.delete(name);
+		this.#options.delete(name);
+	}
+
+	options(name: string): Parameters<Cookies['set']>[2] | undefined {
+		return this.#options.get(name);
 	}
 
 	serialize(name: string, value: string): string {
@@ -25,5 +32,6 @@ export class InMemoryCookies implements Cookies {
 
 	clear(): void {
 		this.#cookies.clear();
+		this.#options.clear();
 	}
 }
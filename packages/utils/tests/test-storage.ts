@@ -2,17 +2,34 @@ import type { StorageReadWriter } from '$lib/server/storage';
 
 export class InMemoryStorage<T> implements StorageReadWriter<T> {
 	#map = new Map<string, T>();
+	#ttls = new Map<string, number | undefined>();
 
 	async get(key: string): Promise<T | undefined> {
 		return this.#map.get(key);
 	}
 
-	async set(key: string, value: T): Promise<void> {
+	async set(key: string, value: T, ttl?: number): Promise<void> {
 		this.#map.set(key, value);
+		this.#ttls.set(key, ttl);
 	}
 
 	async delete(key: string): Promise<void> {
 		this.#map.delete(key);
+		this.#ttls.delete(key);
+	}
+
+	async touch(key: string, ttl?: number): Promise<boolean> {
+		if (!this.#map.has(key)) {
+			return false;
+		}
+
+		this.#ttls.set(key, ttl);
+
+		return true;
+	}
+
+	ttl(key: string): number | undefined {
+		return this.#ttls.get(key);
 	}
 
 	entries(): [string, T][] {
@@ -21,5 +38,6 @@ export class InMemoryStorage<T> implements StorageReadWriter<T> {
 
 	clear(): void {
 		this.#map.clear();
+		this.#ttls.clear();
 	}
 }